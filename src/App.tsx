@@ -1,115 +1,421 @@
-import { useEffect, useMemo, useState, type ChangeEvent } from 'react'
-import { Link, NavLink, Route, Routes } from 'react-router-dom'
+import { useEffect, useMemo, useState, type ChangeEvent, type ReactNode } from 'react'
+import { Link, NavLink, Route, Routes, useSearchParams } from 'react-router-dom'
 import './App.css'
-import { JOBS, type Job, type JobExperience, type JobMode, type JobSource } from './data/jobs'
+import {
+  JOB_EXPERIENCES,
+  JOB_MODES,
+  JOBS,
+  resolveBundledJob,
+  type Job,
+  type JobMode,
+} from './data/jobs'
+import {
+  detectFeedFormat,
+  fetchJobFeed,
+  importJobFeed,
+  loadImportedRecords,
+  mergeById,
+  saveImportedRecords,
+  type JobFeedFormat,
+  type RawJobRecord,
+} from './data/ingest'
+import { annualizeSalary, formatAnnualSalary, salaryOverlapsLpaRange } from './data/salary'
+import { clusterDuplicateJobs, indexClusters, type JobCluster } from './data/dedupe'
+import {
+  countFacetValues,
+  EMPTY_FACET_SELECTION,
+  FACETS,
+  formatFacetValue,
+  matchesFacets,
+  type FacetCount,
+  type FacetKey,
+  type FacetSelection,
+} from './data/facets'
+import {
+  describeEligibility,
+  findEligibilityIssues,
+  type CandidateProfile,
+} from './data/eligibility'
+import {
+  describeLocationExclusion,
+  findExclusionMatches,
+  parseLocationExclusions,
+  type ExclusionRules,
+} from './data/exclusions'
+import {
+  EXPERIENCE_RANGES,
+  formatExperienceRange,
+  parseExperiencePreference,
+} from './data/experience'
+import {
+  deadlineTimestamp,
+  formatDeadline,
+  getJobLifecycle,
+  isJobClosed,
+} from './data/lifecycle'
+import { deleteAttachment, getAttachment, putAttachment } from './data/attachments'
+import {
+  buildCalendar,
+  calendarFileName,
+  collectCalendarEvents,
+  deadlineToEvent,
+  reminderToEvent,
+  type CalendarEvent,
+} from './data/calendar'
+import {
+  completeReminder,
+  createReminder,
+  formatDueIn,
+  getReminderLabel,
+  getRemindersToNotify,
+  groupReminders,
+  hasOpenReminder,
+  isOpenReminder,
+  loadReminders,
+  REMINDER_KINDS,
+  saveReminders,
+  snoozeReminder,
+  SNOOZE_OPTIONS,
+  suggestDueDate,
+  toDateTimeInputValue,
+  UPCOMING_WINDOW_DAYS,
+  updateReminder,
+  type Reminder,
+  type ReminderKind,
+} from './data/reminders'
+import { parseNotes, type NoteInline } from './data/notes'
+import {
+  createWorkspaceId,
+  EMPTY_WORKSPACE,
+  findContactIssues,
+  formatFileSize,
+  getWorkspace,
+  loadWorkspaces,
+  normalizeLinkedIn,
+  saveWorkspaces,
+  updateWorkspace,
+  workspaceSearchText,
+  type JobAttachment,
+  type JobContact,
+  type JobWorkspace,
+  type WorkspaceStore,
+} from './data/workspace'
+import {
+  appendStatusEvent,
+  daysSinceApplied,
+  formatDays,
+  getLatestStatuses,
+  getStageSpans,
+  loadStatusLog,
+  mergeStatusEvents,
+  saveStatusLog,
+  type JobStatusRecord,
+  type StatusEvent,
+  type StatusLog,
+} from './data/history'
+import {
+  addStage,
+  canTransition,
+  DEFAULT_PIPELINE,
+  findStage,
+  getInitialStage,
+  getNextStages,
+  loadPipeline,
+  moveStage,
+  removeStage,
+  savePipeline,
+  STAGE_TONES,
+  toggleTransition,
+  updateStage,
+  type Pipeline,
+  type PipelineStage,
+  type StageTone,
+} from './data/pipeline'
+import {
+  daysBetween,
+  formatPosted,
+  isStale,
+  postedTimestamp,
+  toDateKey,
+} from './data/recency'
+import {
+  computeMatchBreakdown,
+  computeMatchScore,
+  DEFAULT_SCORING_WEIGHTS,
+  defaultPreferences,
+  isHiddenByEligibility,
+  isHiddenByRules,
+  isHiddenBySalaryFloor,
+  SCORING_FACTORS,
+  SCORING_PRESETS,
+  splitCommaSeparated,
+  type MatchBreakdown,
+  type MatchFactorResult,
+  type Preferences,
+  type ScoringWeights,
+} from './data/scoring'
+import {
+  findStandaloneTerms,
+  matchesJobQuery,
+  optionKey,
+  parseJobQuery,
+  removeQueryTerms,
+  type QueryError,
+  type QueryField,
+} from './data/query'
+import {
+  buildSearchIndex,
+  expandSearchQuery,
+  findHighlightRanges,
+  fuzzyFilterOptions,
+  isEmptySearchQuery,
+  parseSearchQuery,
+  searchJobs,
+  suggestSkills,
+} from './data/search'
+import { canonicalizeSkill, canonicalizeSkills, hasSubSkills } from './data/skills'
+import { getJobSource, getSourceDisplayName, listJobSources } from './data/sources'
+import { validateJobs, type QuarantinedJobRecord } from './data/validation'
 
-type Filters = {
+type Filters = FacetSelection & {
   keyword: string
-  location: string
-  mode: '' | JobMode
-  experience: '' | JobExperience
-  source: '' | JobSource
-  sort: 'latest' | 'matchScore' | 'salary'
-  status: JobStatusFilter
+  salaryMin: number | null
+  salaryMax: number | null
+  sort: FilterSort
+  status: string
 }
 
-type JobStatus = 'Not Applied' | 'Applied' | 'Rejected' | 'Selected'
+type FilterSort = 'latest' | 'matchScore' | 'salary' | 'deadline' | 'relevance'
 
-type JobStatusFilter = '' | JobStatus
+const SORT_OPTIONS: { value: FilterSort; label: string }[] = [
+  { value: 'latest', label: 'Latest' },
+  { value: 'matchScore', label: 'Best match' },
+  { value: 'salary', label: 'Highest salary' },
+  { value: 'deadline', label: 'Closing soonest' },
+  { value: 'relevance', label: 'Relevance' },
+]
 
-type Preferences = {
-  roleKeywords: string
-  preferredLocations: string[]
-  preferredModes: JobMode[]
-  experienceLevel: JobExperience | ''
-  skills: string
-  minMatchScore: number
-}
+const JOB_AGE_OPTIONS = [7, 14, 30, 60, 0]
 
-const defaultPreferences: Preferences = {
-  roleKeywords: '',
-  preferredLocations: [],
-  preferredModes: [],
-  experienceLevel: '',
-  skills: '',
-  minMatchScore: 40,
+const parseNonNegativeInput = (value: string): number | null => {
+  const parsed = Number.parseFloat(value)
+  return Number.isNaN(parsed) || parsed < 0 ? null : parsed
 }
 
-type JobStatusRecord = {
-  status: JobStatus
-  updatedAt: string
+const compareAnnualSalaryDesc = (a: Job, b: Job): number => {
+  if (!a.salary || !b.salary) return Number(Boolean(b.salary)) - Number(Boolean(a.salary))
+  const annualA = annualizeSalary(a.salary)
+  const annualB = annualizeSalary(b.salary)
+  return annualB.max - annualA.max || annualB.min - annualA.min
 }
 
-const splitCommaSeparated = (value: string): string[] =>
-  value
-    .split(',')
-    .map((token) => token.trim().toLowerCase())
-    .filter(Boolean)
+const formatSalaryLabel = (job: Job): string => {
+  if (!job.salary) return `${job.salaryRange} · unverified`
+  if (job.salary.period === 'monthly') {
+    return `${job.salaryRange} (≈ ${formatAnnualSalary(job.salary)})`
+  }
+  return job.salaryRange
+}
 
-const computeMatchScore = (job: Job, preferences: Preferences): number => {
-  let score = 0
+const shareStatusesAcrossClusters = (
+  statuses: Record<number, JobStatusRecord>,
+  clusterByJobId: Map<number, JobCluster>,
+): Record<number, JobStatusRecord> => {
+  const shared: Record<number, JobStatusRecord> = {}
+  Object.entries(statuses).forEach(([id, record]) => {
+    const numericId = Number(id)
+    const memberIds = clusterByJobId.get(numericId)?.members.map((member) => member.id) ?? [
+      numericId,
+    ]
+    memberIds.forEach((memberId) => {
+      const current = shared[memberId]
+      if (!current || current.updatedAt < record.updatedAt) {
+        shared[memberId] = record
+      }
+    })
+  })
+  return shared
+}
 
-  const roleKeywords = splitCommaSeparated(preferences.roleKeywords)
-  const prefSkills = splitCommaSeparated(preferences.skills)
+const isListedOnDashboard = (job: Job, preferences: Preferences): boolean =>
+  !isJobClosed(job) &&
+  !isHiddenBySalaryFloor(job, preferences) &&
+  !isHiddenByEligibility(job, preferences) &&
+  !isStale(job.postedAt, preferences.maxJobAgeDays)
 
-  const titleLower = job.title.toLowerCase()
-  const descriptionLower = job.description.toLowerCase()
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
 
-  if (roleKeywords.length > 0) {
-    if (roleKeywords.some((kw) => titleLower.includes(kw))) {
-      score += 25
-    }
-    if (roleKeywords.some((kw) => descriptionLower.includes(kw))) {
-      score += 15
-    }
+const showSystemNotification = (title: string, options: NotificationOptions) => {
+  try {
+    new Notification(title, options)
+  } catch {
+    // Android browsers only allow notifications through a service worker
+    navigator.serviceWorker
+      ?.getRegistration()
+      .then((registration) => registration?.showNotification(title, options))
+      .catch(() => undefined)
   }
+}
 
-  if (preferences.preferredLocations.length > 0) {
-    if (preferences.preferredLocations.includes(job.location)) {
-      score += 15
-    }
-  }
+const downloadCalendar = (events: CalendarEvent[], filename: string) =>
+  downloadBlob(new Blob([buildCalendar(events)], { type: 'text/calendar;charset=utf-8' }), filename)
 
-  if (preferences.preferredModes.length > 0) {
-    if (preferences.preferredModes.includes(job.mode)) {
-      score += 10
-    }
-  }
+const exportReminder = (reminder: Reminder, job: Job | undefined) =>
+  downloadCalendar(
+    [reminderToEvent(reminder, job)],
+    calendarFileName(getReminderLabel(reminder.kind), job?.title ?? ''),
+  )
 
-  if (preferences.experienceLevel && preferences.experienceLevel === job.experience) {
-    score += 10
-  }
+const describeFactor = (entry: MatchFactorResult): string =>
+  entry.matched.length > 0 ? `${entry.label} (${entry.matched.join(', ')})` : entry.label
 
-  if (prefSkills.length > 0) {
-    const jobSkillsLower = job.skills.map((s) => s.toLowerCase())
-    const hasOverlap = jobSkillsLower.some((skill) => prefSkills.includes(skill))
-    if (hasOverlap) {
-      score += 15
-    }
-  }
+const summarizeBreakdown = (breakdown: MatchBreakdown) => ({
+  hits: breakdown.factors.filter((entry) => entry.points > 0).map(describeFactor),
+  misses: [
+    ...breakdown.factors
+      .filter((entry) => entry.active && entry.points <= 0)
+      .map((entry) => entry.label),
+    ...(breakdown.exclusions.length > 0
+      ? [`Exclusion rules (${breakdown.exclusions.join(', ')})`]
+      : []),
+  ],
+})
 
-  if (job.postedDaysAgo <= 2) {
-    score += 5
-  }
+type MatchBreakdownViewProps = {
+  breakdown: MatchBreakdown
+  compact?: boolean
+}
 
-  if (job.source === 'LinkedIn') {
-    score += 5
+const MatchBreakdownView = ({ breakdown, compact = false }: MatchBreakdownViewProps) => {
+  if (compact) {
+    const { hits, misses } = summarizeBreakdown(breakdown)
+    return (
+      <p className="kpbs-match-summary">
+        {hits.length > 0 && (
+          <span className="kpbs-match-summary__hit">Matched: {hits.join(' · ')}</span>
+        )}
+        {misses.length > 0 && (
+          <span className="kpbs-match-summary__miss">Missed: {misses.join(' · ')}</span>
+        )}
+      </p>
+    )
   }
 
-  return Math.min(score, 100)
+  return (
+    <ul className="kpbs-breakdown">
+      {breakdown.factors.map((entry) => (
+        <li
+          key={entry.factor}
+          className={`kpbs-breakdown__row${
+            !entry.active
+              ? ' kpbs-breakdown__row--inactive'
+              : entry.points > 0
+                ? ' kpbs-breakdown__row--hit'
+                : ' kpbs-breakdown__row--miss'
+          }`}
+        >
+          <span className="kpbs-breakdown__label">{entry.label}</span>
+          <span className="kpbs-breakdown__detail">
+            {!entry.active
+              ? 'Not set in your preferences'
+              : [
+                  entry.matched.length > 0 ? `Matched: ${entry.matched.join(', ')}` : '',
+                  entry.missed.length > 0 ? `Missed: ${entry.missed.join(', ')}` : '',
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+          </span>
+          <span className="kpbs-breakdown__points">
+            {entry.points}/{entry.maxPoints}
+          </span>
+        </li>
+      ))}
+      {breakdown.exclusions.length > 0 && (
+        <li className="kpbs-breakdown__row kpbs-breakdown__row--miss">
+          <span className="kpbs-breakdown__label">Exclusion rules</span>
+          <span className="kpbs-breakdown__detail">{breakdown.exclusions.join(' · ')}</span>
+          <span className="kpbs-breakdown__points">
+            {breakdown.penalty > 0 ? `-${breakdown.penalty}` : 'Hidden'}
+          </span>
+        </li>
+      )}
+    </ul>
+  )
+}
+
+type HighlightedTextProps = {
+  text: string
+  tokens: Set<string>
+}
+
+const HighlightedText = ({ text, tokens }: HighlightedTextProps) => {
+  const ranges = findHighlightRanges(text, tokens)
+  if (ranges.length === 0) return <>{text}</>
+  const parts: ReactNode[] = []
+  let cursor = 0
+  ranges.forEach(([start, end]) => {
+    parts.push(text.slice(cursor, start))
+    parts.push(
+      <mark key={start} className="kpbs-highlight">
+        {text.slice(start, end)}
+      </mark>,
+    )
+    cursor = end
+  })
+  parts.push(text.slice(cursor))
+  return <>{parts}</>
+}
+
+type LocationPickerProps = {
+  id: string
+  locations: string[]
+  selected: string[]
+  onChange: (next: string[]) => void
 }
 
-const extractSalaryValue = (salaryRange: string): number => {
-  const match = salaryRange.match(/(\d+)/)
-  if (!match) return 0
-  let value = Number.parseInt(match[1] ?? '0', 10)
-  const lower = salaryRange.toLowerCase()
-  if (lower.includes('lpa')) {
-    value *= 100000
-  } else if (lower.includes('k')) {
-    value *= 1000
+const LocationPicker = ({ id, locations, selected, onChange }: LocationPickerProps) => {
+  const [query, setQuery] = useState('')
+  const visible = fuzzyFilterOptions(locations, query)
+
+  const handleChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const picked = Array.from(event.target.selectedOptions).map((opt) => opt.value)
+    onChange([...selected.filter((location) => !visible.includes(location)), ...picked])
   }
-  return value
+
+  return (
+    <>
+      <input
+        className="kpbs-input"
+        placeholder="Type to filter, e.g. bengalru"
+        aria-label="Filter locations"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+      />
+      <select
+        id={id}
+        multiple
+        className="kpbs-input kpbs-input--select kpbs-input--multiselect"
+        value={selected.filter((location) => visible.includes(location))}
+        onChange={handleChange}
+      >
+        {visible.map((location) => (
+          <option key={location} value={location}>
+            {location}
+          </option>
+        ))}
+      </select>
+      {selected.length > 0 && (
+        <span className="kpbs-toggle__hint">Selected: {selected.join('; ')}</span>
+      )}
+    </>
+  )
 }
 
 const LandingPage = () => (
@@ -128,31 +434,69 @@ const LandingPage = () => (
   </main>
 )
 
-const formatPosted = (days: number) => {
-  if (days === 0) return 'Today'
-  if (days === 1) return '1 day ago'
-  return `${days} days ago`
+const NO_HIGHLIGHTS = new Set<string>()
+
+type StagePickerProps = {
+  id: string
+  pipeline: Pipeline
+  stage: PipelineStage
+  onChange: (stageId: string) => void
+}
+
+const StagePicker = ({ id, pipeline, stage, onChange }: StagePickerProps) => {
+  const nextStages = getNextStages(pipeline, stage.id)
+  return (
+    <select
+      id={id}
+      className="kpbs-input kpbs-input--select kpbs-stage-picker"
+      aria-label="Application stage"
+      value={stage.id}
+      disabled={nextStages.length === 0}
+      onChange={(event) => onChange(event.target.value)}
+    >
+      <option value={stage.id}>{stage.label}</option>
+      {nextStages.map((next) => (
+        <option key={next.id} value={next.id}>
+          → {next.label}
+        </option>
+      ))}
+    </select>
+  )
 }
 
 type JobCardProps = {
   job: Job
+  sources?: Job[]
   matchScore: number
-  status: JobStatus
+  exclusionReasons?: string[]
+  ineligibleReasons?: string[]
+  highlightTokens?: Set<string>
+  pipeline: Pipeline
+  stageId: string | undefined
   isSaved: boolean
   onSave: (id: number) => void
   onView: (job: Job) => void
-  onStatusChange: (status: JobStatus) => void
+  onApply: (job: Job) => void
+  onStageChange: (stageId: string) => void
 }
 
 const JobCard = ({
   job,
+  sources = [job],
   matchScore,
-  status,
+  exclusionReasons = [],
+  ineligibleReasons = [],
+  highlightTokens = NO_HIGHLIGHTS,
+  pipeline,
+  stageId,
   isSaved,
   onSave,
   onView,
-  onStatusChange,
+  onApply,
+  onStageChange,
 }: JobCardProps) => {
+  const lifecycle = getJobLifecycle(job)
+  const stage = findStage(pipeline, stageId)
   const scoreClass =
     matchScore >= 80
       ? 'kpbs-badge--score-high'
@@ -167,8 +511,12 @@ const JobCard = ({
       <div className="kpbs-job-card__main">
         <div className="kpbs-job-card__heading">
           <div>
-            <h2 className="kpbs-job-card__title">{job.title}</h2>
-            <p className="kpbs-job-card__company">{job.company}</p>
+            <h2 className="kpbs-job-card__title">
+              <HighlightedText text={job.title} tokens={highlightTokens} />
+            </h2>
+            <p className="kpbs-job-card__company">
+              <HighlightedText text={job.company} tokens={highlightTokens} />
+            </p>
           </div>
           <div className="kpbs-job-card__score">
             <span
@@ -180,34 +528,63 @@ const JobCard = ({
         </div>
         <div className="kpbs-job-card__meta">
           <span className="kpbs-pill">
-            {job.location} · {job.mode}
+            <HighlightedText text={job.location} tokens={highlightTokens} /> · {job.mode}
           </span>
           <span className="kpbs-pill">Experience: {job.experience}</span>
-          <span className="kpbs-pill">Salary: {job.salaryRange}</span>
+          <span
+            className={`kpbs-pill${job.salary ? '' : ' kpbs-pill--warning'}`}
+            title={job.salary ? undefined : 'This salary range could not be parsed.'}
+          >
+            Salary: {formatSalaryLabel(job)}
+          </span>
         </div>
       </div>
       <div className="kpbs-job-card__footer">
         <div className="kpbs-job-card__footer-left">
-          <span className="kpbs-badge kpbs-badge--source">{job.source}</span>
+          {sources.map((listing) => (
+            <span
+              key={listing.id}
+              className={`kpbs-badge kpbs-badge--source ${
+                getJobSource(listing.source)?.badgeClassName ?? ''
+              }`}
+              title={
+                sources.length > 1
+                  ? `Also listed on ${getSourceDisplayName(listing.source)}`
+                  : undefined
+              }
+            >
+              {getSourceDisplayName(listing.source)}
+            </span>
+          ))}
           <span className="kpbs-job-card__posted">
-            {formatPosted(job.postedDaysAgo)}
+            {formatPosted(job.postedAt)}
           </span>
-          <span
-            className={`
-              kpbs-badge
-              kpbs-badge--status
-              ${
-                status === 'Applied'
-                  ? 'kpbs-badge--status-applied'
-                  : status === 'Rejected'
-                    ? 'kpbs-badge--status-rejected'
-                    : status === 'Selected'
-                      ? 'kpbs-badge--status-selected'
-                      : 'kpbs-badge--status-neutral'
-              }
-            `}
-          >
-            {status}
+          {lifecycle === 'closing-soon' && (
+            <span className="kpbs-badge kpbs-badge--closing" title={formatDeadline(job)}>
+              Closing soon
+            </span>
+          )}
+          {lifecycle === 'closed' && (
+            <span className="kpbs-badge kpbs-badge--closed">Closed</span>
+          )}
+          {exclusionReasons.length > 0 && (
+            <span
+              className="kpbs-badge kpbs-badge--excluded"
+              title={exclusionReasons.join(', ')}
+            >
+              Excluded by rules
+            </span>
+          )}
+          {ineligibleReasons.length > 0 && (
+            <span
+              className="kpbs-badge kpbs-badge--ineligible"
+              title={ineligibleReasons.join(', ')}
+            >
+              Not eligible
+            </span>
+          )}
+          <span className={`kpbs-badge kpbs-badge--status kpbs-badge--status-${stage.tone}`}>
+            {stage.label}
           </span>
         </div>
         <div className="kpbs-job-card__actions">
@@ -230,28 +607,17 @@ const JobCard = ({
           >
             {isSaved ? 'Saved' : 'Save'}
           </button>
-          <div className="kpbs-status-group">
-            {(['Not Applied', 'Applied', 'Rejected', 'Selected'] as JobStatus[]).map(
-              (value) => (
-                <button
-                  key={value}
-                  type="button"
-                  className={`kpbs-status-button${
-                    status === value ? ' kpbs-status-button--active' : ''
-                  }`}
-                  onClick={() => onStatusChange(value)}
-                >
-                  {value}
-                </button>
-              ),
-            )}
-          </div>
+          <StagePicker
+            id={`stage-${job.id}`}
+            pipeline={pipeline}
+            stage={stage}
+            onChange={onStageChange}
+          />
           <button
             type="button"
             className="kpbs-button kpbs-button--primary"
-            onClick={() =>
-              window.open(job.applyUrl, '_blank', 'noopener,noreferrer')
-            }
+            onClick={() => onApply(job)}
+            disabled={lifecycle === 'closed'}
           >
             Apply
           </button>
@@ -261,24 +627,196 @@ const JobCard = ({
   )
 }
 
+type FilterChip = {
+  key: string
+  label: string
+  clear: Partial<Filters>
+}
+
+const FACET_PREVIEW_SIZE = 8
+
+const DEFAULT_FILTERS: Filters = {
+  ...EMPTY_FACET_SELECTION,
+  keyword: '',
+  salaryMin: null,
+  salaryMax: null,
+  sort: 'latest',
+  status: '',
+}
+
+type DashboardView = {
+  filters: Filters
+  showOnlyMatches: boolean
+  showHiddenByRules: boolean
+}
+
+const FACET_PARAMS: Record<FacetKey, string> = {
+  location: 'location',
+  mode: 'mode',
+  experience: 'exp',
+  source: 'source',
+  skills: 'skill',
+}
+
+const FACET_PARAM_OPTIONS: Partial<Record<FacetKey, string[]>> = {
+  mode: JOB_MODES,
+  experience: JOB_EXPERIENCES,
+}
+
+const parseDashboardView = (params: URLSearchParams, pipeline: Pipeline): DashboardView => {
+  const facets = Object.fromEntries(
+    FACETS.map(({ key }) => [
+      key,
+      params
+        .getAll(FACET_PARAMS[key])
+        .filter((value) => value && (FACET_PARAM_OPTIONS[key]?.includes(value) ?? true)),
+    ]),
+  ) as FacetSelection
+  const sort = params.get('sort')
+  const status = params.get('status')
+  return {
+    filters: {
+      ...facets,
+      keyword: params.get('q') ?? '',
+      salaryMin: parseNonNegativeInput(params.get('salaryMin') ?? ''),
+      salaryMax: parseNonNegativeInput(params.get('salaryMax') ?? ''),
+      sort: SORT_OPTIONS.find((option) => option.value === sort)?.value ?? DEFAULT_FILTERS.sort,
+      status: pipeline.stages.find((stage) => stage.id === status)?.id ?? '',
+    },
+    showOnlyMatches: params.get('matches') === '1',
+    showHiddenByRules: params.get('hidden') === '1',
+  }
+}
+
+const dashboardViewToParams = ({
+  filters,
+  showOnlyMatches,
+  showHiddenByRules,
+}: DashboardView): URLSearchParams => {
+  const params = new URLSearchParams()
+  if (filters.keyword) params.set('q', filters.keyword)
+  FACETS.forEach(({ key }) =>
+    filters[key].forEach((value) => params.append(FACET_PARAMS[key], value)),
+  )
+  if (filters.salaryMin !== null) params.set('salaryMin', String(filters.salaryMin))
+  if (filters.salaryMax !== null) params.set('salaryMax', String(filters.salaryMax))
+  if (filters.sort !== DEFAULT_FILTERS.sort) params.set('sort', filters.sort)
+  if (filters.status) params.set('status', filters.status)
+  if (showOnlyMatches) params.set('matches', '1')
+  if (showHiddenByRules) params.set('hidden', '1')
+  return params
+}
+
+const getFilterChips = (filters: Filters, pipeline: Pipeline): FilterChip[] => {
+  const chips: FilterChip[] = []
+  if (filters.keyword.trim()) {
+    chips.push({ key: 'keyword', label: `Search: ${filters.keyword.trim()}`, clear: { keyword: '' } })
+  }
+  FACETS.forEach(({ key, label }) => {
+    filters[key].forEach((value) =>
+      chips.push({
+        key: `${key}-${value}`,
+        label: `${label}: ${formatFacetValue(key, value)}`,
+        clear: { [key]: filters[key].filter((selected) => selected !== value) },
+      }),
+    )
+  })
+  if (filters.salaryMin !== null || filters.salaryMax !== null) {
+    chips.push({
+      key: 'salary',
+      label: `Salary: ${filters.salaryMin ?? 0}–${filters.salaryMax ?? '∞'} LPA`,
+      clear: { salaryMin: null, salaryMax: null },
+    })
+  }
+  if (filters.status) {
+    chips.push({
+      key: 'status',
+      label: `Stage: ${findStage(pipeline, filters.status).label}`,
+      clear: { status: '' },
+    })
+  }
+  return chips
+}
+
+const QUERY_FIELD_FACETS: Partial<Record<QueryField, FacetKey>> = {
+  mode: 'mode',
+  experience: 'experience',
+  source: 'source',
+  skill: 'skills',
+}
+
+const liftQueryFilters = (
+  filters: Filters,
+  pipeline: Pipeline,
+  facetCounts: Record<FacetKey, FacetCount[]>,
+): Filters => {
+  const next: Filters = { ...filters }
+  const lifted = findStandaloneTerms(parseJobQuery(filters.keyword)).filter(({ predicate }) => {
+    if (predicate.kind === 'compare') {
+      if (predicate.metric !== 'salary') return false
+      if (predicate.operator === '>=' && next.salaryMin === null) {
+        next.salaryMin = predicate.value
+        return true
+      }
+      if (predicate.operator === '<=' && next.salaryMax === null) {
+        next.salaryMax = predicate.value
+        return true
+      }
+      return false
+    }
+    if (predicate.field === 'status') {
+      const stage = pipeline.stages.find(
+        (candidate) => optionKey(candidate.label) === optionKey(predicate.value),
+      )
+      if (!stage || next.status) return false
+      next.status = stage.id
+      return true
+    }
+    const facet = QUERY_FIELD_FACETS[predicate.field]
+    if (!facet || next[facet].length > 0) return false
+    if (predicate.field === 'skill' && hasSubSkills(predicate.value)) return false
+    const wanted = (
+      facet === 'skills' ? canonicalizeSkill(predicate.value) : predicate.value
+    ).toLowerCase()
+    const value = facetCounts[facet].find((count) => count.value.toLowerCase() === wanted)?.value
+    if (!value) return false
+    next[facet] = [value]
+    return true
+  })
+  return lifted.length > 0
+    ? { ...next, keyword: removeQueryTerms(filters.keyword, lifted) }
+    : filters
+}
+
 type FilterBarProps = {
   filters: Filters
   onChange: (next: Filters) => void
-  locations: string[]
-  modes: JobMode[]
-  experiences: JobExperience[]
-  sources: JobSource[]
+  facetCounts: Record<FacetKey, FacetCount[]>
+  queryErrors: QueryError[]
+  pipeline: Pipeline
 }
 
-const FilterBar = ({
-  filters,
-  onChange,
-  locations,
-  modes,
-  experiences,
-  sources,
-}: FilterBarProps) => {
+const FilterBar = ({ filters, onChange, facetCounts, queryErrors, pipeline }: FilterBarProps) => {
+  const [expandedFacets, setExpandedFacets] = useState<FacetKey[]>([])
   const update = (partial: Partial<Filters>) => onChange({ ...filters, ...partial })
+  const chips = getFilterChips(filters, pipeline)
+
+  const commitQuery = () => {
+    const next = liftQueryFilters(filters, pipeline, facetCounts)
+    if (next !== filters) onChange(next)
+  }
+
+  const toggleFacetValue = (key: FacetKey, value: string) =>
+    update({
+      [key]: filters[key].includes(value)
+        ? filters[key].filter((selected) => selected !== value)
+        : [...filters[key], value],
+    })
+
+  const toggleExpanded = (key: FacetKey) =>
+    setExpandedFacets((prev) =>
+      prev.includes(key) ? prev.filter((expanded) => expanded !== key) : [...prev, key],
+    )
 
   return (
     <section className="kpbs-filter-bar">
@@ -289,156 +827,363 @@ const FilterBar = ({
           </label>
           <input
             id="filter-keyword"
-            className="kpbs-input"
-            placeholder="Search by title or company"
+            className={`kpbs-input${queryErrors.length > 0 ? ' kpbs-input--invalid' : ''}`}
+            placeholder='e.g. "code reviews" skill:react mode:remote salary>=6lpa -company:tcs'
+            title="Combine words with skill:, mode:, exp:, company:, location:, source:, status:, salary>=, posted< and match>=. Prefix with - to exclude, join with OR, group with ( )."
+            aria-invalid={queryErrors.length > 0}
+            aria-describedby={queryErrors.length > 0 ? 'filter-keyword-errors' : undefined}
             value={filters.keyword}
             onChange={(e) => update({ keyword: e.target.value })}
+            onBlur={commitQuery}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitQuery()
+            }}
           />
+          {queryErrors.length > 0 && (
+            <ul id="filter-keyword-errors" className="kpbs-query-errors">
+              {queryErrors.map((error) => (
+                <li key={`${error.start}-${error.token}`}>
+                  <code>{error.token}</code> {error.message}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
         <div className="kpbs-field kpbs-field--inline">
-          <label className="kpbs-label" htmlFor="filter-location">
-            Location
-          </label>
-          <select
-            id="filter-location"
-            className="kpbs-input kpbs-input--select"
-            value={filters.location}
-            onChange={(e) => update({ location: e.target.value })}
-          >
-            <option value="">All locations</option>
-            {locations.map((loc) => (
-              <option key={loc} value={loc}>
-                {loc}
-              </option>
-            ))}
-          </select>
-        </div>
-        <div className="kpbs-field kpbs-field--inline">
-          <label className="kpbs-label" htmlFor="filter-mode">
-            Mode
-          </label>
-          <select
-            id="filter-mode"
-            className="kpbs-input kpbs-input--select"
-            value={filters.mode}
-            onChange={(e) => update({ mode: e.target.value as Filters['mode'] })}
-          >
-            <option value="">All modes</option>
-            {modes.map((mode) => (
-              <option key={mode} value={mode}>
-                {mode}
-              </option>
-            ))}
-          </select>
+          <span className="kpbs-label">Salary (LPA)</span>
+          <div className="kpbs-inline-row">
+            <input
+              id="filter-salary-min"
+              className="kpbs-input"
+              type="number"
+              min={0}
+              step={0.5}
+              placeholder="Min"
+              aria-label="Minimum salary in LPA"
+              value={filters.salaryMin ?? ''}
+              onChange={(e) => update({ salaryMin: parseNonNegativeInput(e.target.value) })}
+            />
+            <input
+              id="filter-salary-max"
+              className="kpbs-input"
+              type="number"
+              min={0}
+              step={0.5}
+              placeholder="Max"
+              aria-label="Maximum salary in LPA"
+              value={filters.salaryMax ?? ''}
+              onChange={(e) => update({ salaryMax: parseNonNegativeInput(e.target.value) })}
+            />
+          </div>
         </div>
-      </div>
-      <div className="kpbs-filter-bar__row">
         <div className="kpbs-field kpbs-field--inline">
-          <label className="kpbs-label" htmlFor="filter-experience">
-            Experience
+          <label className="kpbs-label" htmlFor="filter-sort">
+            Sort
           </label>
           <select
-            id="filter-experience"
+            id="filter-sort"
             className="kpbs-input kpbs-input--select"
-            value={filters.experience}
-            onChange={(e) => update({ experience: e.target.value as Filters['experience'] })}
+            value={filters.sort}
+            onChange={(e) =>
+              update({ sort: e.target.value as Filters['sort'] })
+            }
           >
-            <option value="">All experience levels</option>
-            {experiences.map((exp) => (
-              <option key={exp} value={exp}>
-                {exp}
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
               </option>
             ))}
           </select>
         </div>
         <div className="kpbs-field kpbs-field--inline">
-          <label className="kpbs-label" htmlFor="filter-source">
-            Source
+          <label className="kpbs-label" htmlFor="filter-stage">
+            Stage
           </label>
           <select
-            id="filter-source"
+            id="filter-stage"
             className="kpbs-input kpbs-input--select"
-            value={filters.source}
-            onChange={(e) => update({ source: e.target.value as Filters['source'] })}
+            value={filters.status}
+            onChange={(e) => update({ status: e.target.value })}
           >
-            <option value="">All sources</option>
-            {sources.map((src) => (
-              <option key={src} value={src}>
-                {src}
+            <option value="">All stages</option>
+            {pipeline.stages.map((stage) => (
+              <option key={stage.id} value={stage.id}>
+                {stage.label}
               </option>
             ))}
           </select>
         </div>
-        <div className="kpbs-field kpbs-field--inline">
-          <label className="kpbs-label" htmlFor="filter-sort">
-            Sort
-          </label>
-          <select
-            id="filter-sort"
-            className="kpbs-input kpbs-input--select"
-            value={filters.sort}
-            onChange={(e) =>
-              update({ sort: e.target.value as Filters['sort'] })
-            }
+      </div>
+      <div className="kpbs-facets">
+        {FACETS.map(({ key, label }) => {
+          const counts = facetCounts[key]
+          const isExpanded = expandedFacets.includes(key)
+          const visible = isExpanded
+            ? counts
+            : counts.filter(
+                ({ value }, index) => index < FACET_PREVIEW_SIZE || filters[key].includes(value),
+              )
+          return (
+            <fieldset key={key} className="kpbs-facet">
+              <legend className="kpbs-label">{label}</legend>
+              {visible.map(({ value, count }) => {
+                const isSelected = filters[key].includes(value)
+                return (
+                  <label
+                    key={value}
+                    className={`kpbs-checkbox kpbs-facet__option${
+                      count === 0 && !isSelected ? ' kpbs-facet__option--empty' : ''
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      disabled={count === 0 && !isSelected}
+                      onChange={() => toggleFacetValue(key, value)}
+                    />
+                    <span>{formatFacetValue(key, value)}</span>
+                    <span className="kpbs-facet__count">{count}</span>
+                  </label>
+                )
+              })}
+              {counts.length > FACET_PREVIEW_SIZE && (
+                <button
+                  type="button"
+                  className="kpbs-facet__more"
+                  onClick={() => toggleExpanded(key)}
+                >
+                  {isExpanded ? 'Show fewer' : `Show all ${counts.length}`}
+                </button>
+              )}
+            </fieldset>
+          )
+        })}
+      </div>
+      {chips.length > 0 && (
+        <div className="kpbs-filter-chips">
+          {chips.map((chip) => (
+            <button
+              key={chip.key}
+              type="button"
+              className="kpbs-filter-chip"
+              aria-label={`Remove filter ${chip.label}`}
+              onClick={() => update(chip.clear)}
+            >
+              {chip.label} <span aria-hidden="true">×</span>
+            </button>
+          ))}
+          <button
+            type="button"
+            className="kpbs-button kpbs-button--ghost"
+            onClick={() => onChange({ ...DEFAULT_FILTERS, sort: filters.sort })}
           >
-            <option value="latest">Latest</option>
-            <option value="matchScore">Best match</option>
-            <option value="salary">Highest salary</option>
-          </select>
+            Clear all
+          </button>
         </div>
+      )}
+    </section>
+  )
+}
+
+type NotificationPermissionState = NotificationPermission | 'unsupported'
+
+type ReminderRowProps = {
+  reminder: Reminder
+  now: Date
+  title?: ReactNode
+  onComplete: (id: string) => void
+  onSnooze: (id: string, minutes: number) => void
+  onExport: (reminder: Reminder) => void
+}
+
+const ReminderRow = ({
+  reminder,
+  now,
+  title,
+  onComplete,
+  onSnooze,
+  onExport,
+}: ReminderRowProps) => {
+  const isOverdue = Date.parse(reminder.dueAt) <= now.getTime()
+  return (
+    <li className="kpbs-reminder">
+      <div className="kpbs-reminder__main">
+        {title}
+        <span className="kpbs-reminder__kind">{getReminderLabel(reminder.kind)}</span>
+        <time
+          className={`kpbs-reminder__due${isOverdue ? ' kpbs-reminder__due--overdue' : ''}`}
+          dateTime={reminder.dueAt}
+          title={new Date(reminder.dueAt).toLocaleString()}
+        >
+          {formatDueIn(reminder.dueAt, now)}
+        </time>
+        {reminder.note && <span className="kpbs-reminder__note">{reminder.note}</span>}
+      </div>
+      <div className="kpbs-reminder__actions">
+        <select
+          className="kpbs-input kpbs-input--select kpbs-stage-picker"
+          aria-label="Snooze reminder"
+          value=""
+          onChange={(event) => onSnooze(reminder.id, Number(event.target.value))}
+        >
+          <option value="">Snooze…</option>
+          {SNOOZE_OPTIONS.map((option) => (
+            <option key={option.minutes} value={option.minutes}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className="kpbs-button kpbs-button--ghost"
+          title="Download as an .ics calendar event"
+          onClick={() => onExport(reminder)}
+        >
+          .ics
+        </button>
+        <button
+          type="button"
+          className="kpbs-button kpbs-button--secondary"
+          onClick={() => onComplete(reminder.id)}
+        >
+          Done
+        </button>
       </div>
+    </li>
+  )
+}
+
+type RemindersPanelProps = {
+  reminders: Reminder[]
+  now: Date
+  clusterByJobId: Map<number, JobCluster>
+  notificationPermission: NotificationPermissionState
+  onEnableNotifications: () => void
+  onComplete: (id: string) => void
+  onSnooze: (id: string, minutes: number) => void
+  onViewJob: (job: Job) => void
+}
+
+const RemindersPanel = ({
+  reminders,
+  now,
+  clusterByJobId,
+  notificationPermission,
+  onEnableNotifications,
+  onComplete,
+  onSnooze,
+  onViewJob,
+}: RemindersPanelProps) => {
+  const { overdue, upcoming } = groupReminders(reminders, now)
+  if (overdue.length === 0 && upcoming.length === 0) return null
+
+  const renderGroup = (label: string, group: Reminder[]) =>
+    group.length > 0 && (
+      <>
+        <h3 className="kpbs-digest-job-title">{label}</h3>
+        <ul className="kpbs-reminder-list">
+          {group.map((reminder) => {
+            const job = clusterByJobId.get(reminder.jobId)?.primary
+            return (
+              <ReminderRow
+                key={reminder.id}
+                reminder={reminder}
+                now={now}
+                title={
+                  job && (
+                    <button
+                      type="button"
+                      className="kpbs-link-button"
+                      onClick={() => onViewJob(job)}
+                    >
+                      {job.title} · {job.company}
+                    </button>
+                  )
+                }
+                onComplete={onComplete}
+                onSnooze={onSnooze}
+                onExport={(exported) => exportReminder(exported, job)}
+              />
+            )
+          })}
+        </ul>
+      </>
+    )
+
+  return (
+    <section className="kpbs-card kpbs-reminders">
+      <header className="kpbs-inline-row">
+        <h2 className="kpbs-card__title">Reminders</h2>
+        {notificationPermission === 'default' && (
+          <button
+            type="button"
+            className="kpbs-button kpbs-button--ghost"
+            onClick={onEnableNotifications}
+          >
+            Enable browser alerts
+          </button>
+        )}
+      </header>
+      {renderGroup(`Overdue (${overdue.length})`, overdue)}
+      {renderGroup(`Next ${UPCOMING_WINDOW_DAYS} days (${upcoming.length})`, upcoming)}
     </section>
   )
 }
 
 type JobsDashboardProps = {
   jobs: Job[]
+  clusterByJobId: Map<number, JobCluster>
+  quarantinedCount: number
   savedJobIds: number[]
   preferences: Preferences
   hasPreferences: boolean
   jobStatuses: Record<number, JobStatusRecord>
+  pipeline: Pipeline
+  workspaces: WorkspaceStore
+  reminders: Reminder[]
+  now: Date
+  notificationPermission: NotificationPermissionState
   onSaveJob: (id: number) => void
-  onViewJob: (job: Job) => void
-  onChangeStatus: (jobId: number, status: JobStatus) => void
+  onViewJob: (job: Job, highlightTokens?: Set<string>) => void
+  onApplyJob: (job: Job) => void
+  onChangeStatus: (jobId: number, stageId: string) => void
+  onEnableNotifications: () => void
+  onCompleteReminder: (id: string) => void
+  onSnoozeReminder: (id: string, minutes: number) => void
 }
 
 const JobsDashboard = ({
   jobs,
+  clusterByJobId,
+  quarantinedCount,
   savedJobIds,
   preferences,
   hasPreferences,
   jobStatuses,
+  pipeline,
+  workspaces,
+  reminders,
+  now,
+  notificationPermission,
   onSaveJob,
   onViewJob,
+  onApplyJob,
   onChangeStatus,
+  onEnableNotifications,
+  onCompleteReminder,
+  onSnoozeReminder,
 }: JobsDashboardProps) => {
-  const [filters, setFilters] = useState<Filters>({
-    keyword: '',
-    location: '',
-    mode: '',
-    experience: '',
-    source: '',
-    sort: 'latest',
-    status: '',
-  })
-  const [showOnlyMatches, setShowOnlyMatches] = useState(false)
+  const [searchParams, setSearchParams] = useSearchParams()
+  const view = useMemo(() => parseDashboardView(searchParams, pipeline), [searchParams, pipeline])
+  const { filters, showOnlyMatches, showHiddenByRules } = view
 
-  const locations = useMemo(
-    () => Array.from(new Set(jobs.map((j) => j.location))).sort(),
-    [jobs],
-  )
-  const modes = useMemo(
-    () => Array.from(new Set(jobs.map((j) => j.mode))).sort(),
-    [jobs],
-  )
-  const experiences = useMemo(
-    () => Array.from(new Set(jobs.map((j) => j.experience))).sort(),
-    [jobs],
-  )
-  const sources = useMemo(
-    () => Array.from(new Set(jobs.map((j) => j.source))).sort(),
-    [jobs],
-  )
+  const updateView = (partial: Partial<DashboardView>) => {
+    const next = { ...view, ...partial }
+    setSearchParams(dashboardViewToParams(next), {
+      replace: next.filters.keyword !== filters.keyword,
+    })
+  }
+  const setFilters = (next: Filters) => updateView({ filters: next })
 
   const jobsWithScores = useMemo(
     () =>
@@ -449,56 +1194,108 @@ const JobsDashboard = ({
     [jobs, preferences],
   )
 
-  const filteredJobs = useMemo(() => {
+  const workspaceText = useMemo(
+    () =>
+      new Map(
+        Object.entries(workspaces).map(([id, workspace]) => [
+          Number(id),
+          workspaceSearchText(workspace),
+        ]),
+      ),
+    [workspaces],
+  )
+
+  const searchIndex = useMemo(() => buildSearchIndex(jobs, workspaceText), [jobs, workspaceText])
+
+  const jobQuery = useMemo(() => parseJobQuery(filters.keyword), [filters.keyword])
+
+  const { relevanceByJobId, highlightTokens } = useMemo(() => {
+    const query = parseSearchQuery(jobQuery.searchText)
+    return isEmptySearchQuery(query)
+      ? { relevanceByJobId: null, highlightTokens: NO_HIGHLIGHTS }
+      : {
+          relevanceByJobId: searchJobs(searchIndex, query),
+          highlightTokens: expandSearchQuery(searchIndex, query),
+        }
+  }, [searchIndex, jobQuery])
+
+  const { candidateJobs, hiddenByRulesCount } = useMemo(() => {
     let result = [...jobsWithScores]
-    if (filters.keyword.trim()) {
-      const q = filters.keyword.toLowerCase()
+    if (relevanceByJobId) {
+      result = result.filter(({ job }) => relevanceByJobId.has(job.id))
+    }
+    result = result.filter(({ job, score }) =>
+      matchesJobQuery(job, jobQuery, {
+        status: findStage(pipeline, jobStatuses[job.id]?.status).label,
+        matchScore: score,
+        notes: workspaceText.get(job.id) ?? '',
+      }),
+    )
+    if (filters.salaryMin !== null || filters.salaryMax !== null) {
       result = result.filter(
         ({ job }) =>
-          job.title.toLowerCase().includes(q) ||
-          job.company.toLowerCase().includes(q),
+          job.salary &&
+          salaryOverlapsLpaRange(job.salary, filters.salaryMin, filters.salaryMax),
       )
     }
-    if (filters.location) {
-      result = result.filter(({ job }) => job.location === filters.location)
+    result = result.filter(({ job }) => isListedOnDashboard(job, preferences))
+    const hiddenCount = result.filter(({ job }) => isHiddenByRules(job, preferences)).length
+    if (!showHiddenByRules) {
+      result = result.filter(({ job }) => !isHiddenByRules(job, preferences))
     }
-    if (filters.mode) {
-      result = result.filter(({ job }) => job.mode === filters.mode)
-    }
-    if (filters.experience) {
+    if (filters.status) {
       result = result.filter(
-        ({ job }) => job.experience === filters.experience,
+        ({ job }) => findStage(pipeline, jobStatuses[job.id]?.status).id === filters.status,
       )
     }
-    if (filters.source) {
-      result = result.filter(({ job }) => job.source === filters.source)
-    }
-    if (filters.status) {
-      result = result.filter(({ job }) => {
-        const statusRecord = jobStatuses[job.id]
-        const status = statusRecord?.status ?? 'Not Applied'
-        return status === filters.status
-      })
-    }
     if (showOnlyMatches && hasPreferences) {
       const threshold = preferences.minMatchScore ?? 40
       result = result.filter(({ score }) => score >= threshold)
     }
+    return { candidateJobs: result, hiddenByRulesCount: hiddenCount }
+  }, [
+    jobsWithScores,
+    jobStatuses,
+    pipeline,
+    workspaceText,
+    jobQuery,
+    relevanceByJobId,
+    filters,
+    showOnlyMatches,
+    showHiddenByRules,
+    hasPreferences,
+    preferences,
+  ])
+
+  const facetCounts = useMemo(() => {
+    const candidates = candidateJobs.map(({ job }) => job)
+    return Object.fromEntries(
+      FACETS.map(({ key }) => [key, countFacetValues(jobs, candidates, filters, key)]),
+    ) as Record<FacetKey, FacetCount[]>
+  }, [jobs, candidateJobs, filters])
+
+  const filteredJobs = useMemo(() => {
+    const result = candidateJobs.filter(({ job }) => matchesFacets(job, filters))
     result.sort((a, b) => {
       if (filters.sort === 'matchScore') {
         return b.score - a.score
       }
       if (filters.sort === 'salary') {
-        return (
-          extractSalaryValue(b.job.salaryRange) -
-          extractSalaryValue(a.job.salaryRange)
-        )
+        return compareAnnualSalaryDesc(a.job, b.job)
       }
-      // latest by postedDaysAgo ascending
-      return a.job.postedDaysAgo - b.job.postedDaysAgo
+      if (filters.sort === 'deadline') {
+        const byDeadline = deadlineTimestamp(a.job) - deadlineTimestamp(b.job)
+        if (byDeadline) return byDeadline
+      }
+      if (filters.sort === 'relevance' && relevanceByJobId) {
+        const byRelevance =
+          (relevanceByJobId.get(b.job.id) ?? 0) - (relevanceByJobId.get(a.job.id) ?? 0)
+        if (byRelevance) return byRelevance
+      }
+      return postedTimestamp(b.job.postedAt) - postedTimestamp(a.job.postedAt)
     })
     return result
-  }, [jobsWithScores, filters, showOnlyMatches, hasPreferences, preferences])
+  }, [candidateJobs, filters, relevanceByJobId])
 
   return (
     <main className="kpbs-page">
@@ -510,6 +1307,24 @@ const JobsDashboard = ({
           </p>
         </section>
       )}
+      {quarantinedCount > 0 && (
+        <section className="kpbs-card kpbs-card--banner">
+          <p className="kpbs-card__body">
+            {quarantinedCount} job records failed validation and are hidden.{' '}
+            <Link to="/settings">Review the report in Settings.</Link>
+          </p>
+        </section>
+      )}
+      <RemindersPanel
+        reminders={reminders}
+        now={now}
+        clusterByJobId={clusterByJobId}
+        notificationPermission={notificationPermission}
+        onEnableNotifications={onEnableNotifications}
+        onComplete={onCompleteReminder}
+        onSnooze={onSnoozeReminder}
+        onViewJob={onViewJob}
+      />
       <div className="kpbs-dashboard-toggle-row">
         <label className="kpbs-toggle">
           <input
@@ -517,7 +1332,7 @@ const JobsDashboard = ({
             checked={showOnlyMatches}
             disabled={!hasPreferences}
             onChange={(event: ChangeEvent<HTMLInputElement>) =>
-              setShowOnlyMatches(event.target.checked)
+              updateView({ showOnlyMatches: event.target.checked })
             }
           />
           <span>Show only jobs above my threshold</span>
@@ -527,14 +1342,25 @@ const JobsDashboard = ({
             Threshold: {preferences.minMatchScore}
           </span>
         )}
+        {hiddenByRulesCount > 0 && (
+          <label className="kpbs-toggle">
+            <input
+              type="checkbox"
+              checked={showHiddenByRules}
+              onChange={(event: ChangeEvent<HTMLInputElement>) =>
+                updateView({ showHiddenByRules: event.target.checked })
+              }
+            />
+            <span>Show {hiddenByRulesCount} hidden by rules</span>
+          </label>
+        )}
       </div>
       <FilterBar
         filters={filters}
         onChange={setFilters}
-        locations={locations}
-        modes={modes}
-        experiences={experiences}
-        sources={sources}
+        facetCounts={facetCounts}
+        queryErrors={jobQuery.errors}
+        pipeline={pipeline}
       />
       {filteredJobs.length === 0 ? (
         <section className="kpbs-card kpbs-card--empty">
@@ -551,16 +1377,18 @@ const JobsDashboard = ({
             <JobCard
               key={job.id}
               job={job}
+              sources={clusterByJobId.get(job.id)?.members}
               matchScore={score}
-              status={
-                jobStatuses[job.id]?.status
-                  ? jobStatuses[job.id]!.status
-                  : 'Not Applied'
-              }
+              exclusionReasons={findExclusionMatches(job, preferences.exclusions)}
+              ineligibleReasons={findEligibilityIssues(job, preferences.candidateProfile)}
+              highlightTokens={highlightTokens}
+              pipeline={pipeline}
+              stageId={jobStatuses[job.id]?.status}
               isSaved={savedJobIds.includes(job.id)}
               onSave={onSaveJob}
-              onView={onViewJob}
-              onStatusChange={(nextStatus) => onChangeStatus(job.id, nextStatus)}
+              onApply={onApplyJob}
+              onView={(viewed) => onViewJob(viewed, highlightTokens)}
+              onStageChange={(stageId) => onChangeStatus(job.id, stageId)}
             />
           ))}
         </section>
@@ -569,13 +1397,853 @@ const JobsDashboard = ({
   )
 }
 
+type JobFeedPanelProps = {
+  importedRecords: RawJobRecord[]
+  onImport: (records: RawJobRecord[]) => void
+  onClearImported: () => void
+}
+
+const JobFeedPanel = ({
+  importedRecords,
+  onImport,
+  onClearImported,
+}: JobFeedPanelProps) => {
+  const [feedUrl, setFeedUrl] = useState('')
+  const [feedSource, setFeedSource] = useState('')
+  const [isImporting, setIsImporting] = useState(false)
+  const [feedMessage, setFeedMessage] = useState<string | null>(null)
+
+  const runImport = (text: string, format: JobFeedFormat, feed: string) => {
+    const { records } = importJobFeed(
+      text,
+      format,
+      [...JOBS, ...importedRecords],
+      feed,
+      feedSource || undefined,
+    )
+    const { quarantined } = validateJobs(records, 'imported')
+    const previousIds = new Set(importedRecords.map((record) => record.id))
+    const updated = records.filter((record) => previousIds.has(record.id)).length
+    onImport(records)
+    setFeedMessage(
+      `Imported ${records.length - quarantined.length} jobs${
+        updated > 0 ? ` (${updated} updated from an earlier import of this feed)` : ''
+      }${quarantined.length > 0 ? `, quarantined ${quarantined.length} invalid rows` : ''}.`,
+    )
+  }
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    setIsImporting(true)
+    try {
+      const text = await file.text()
+      runImport(text, detectFeedFormat(file.name, file.type, text), file.name)
+    } catch (error) {
+      setFeedMessage(error instanceof Error ? error.message : 'Could not read this file.')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const handleUrlImport = async () => {
+    if (!feedUrl.trim()) return
+    setIsImporting(true)
+    try {
+      const { text, format } = await fetchJobFeed(feedUrl.trim())
+      runImport(text, format, feedUrl.trim())
+      setFeedUrl('')
+    } catch (error) {
+      setFeedMessage(error instanceof Error ? error.message : 'Could not load this feed.')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <section className="kpbs-card">
+      <h2 className="kpbs-card__title">Job feeds</h2>
+      <p className="kpbs-card__body">
+        Import JSON or CSV exports that follow the job format. Imported jobs
+        are merged into your dashboard, digest and saved list.
+      </p>
+      <div className="kpbs-form">
+        <div className="kpbs-field">
+          <label className="kpbs-label" htmlFor="feed-source">
+            Export format
+          </label>
+          <select
+            id="feed-source"
+            className="kpbs-input kpbs-input--select"
+            value={feedSource}
+            onChange={(event) => setFeedSource(event.target.value)}
+          >
+            <option value="">Standard job format (source per row)</option>
+            {listJobSources().map((source) => (
+              <option key={source.id} value={source.id}>
+                {source.displayName} export
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="kpbs-field">
+          <label className="kpbs-label" htmlFor="feed-file">
+            Import from file
+          </label>
+          <input
+            id="feed-file"
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            disabled={isImporting}
+            onChange={handleFileChange}
+          />
+        </div>
+        <div className="kpbs-field">
+          <label className="kpbs-label" htmlFor="feed-url">
+            Import from URL
+          </label>
+          <div className="kpbs-inline-row">
+            <input
+              id="feed-url"
+              className="kpbs-input"
+              placeholder="https://example.com/jobs.json"
+              value={feedUrl}
+              onChange={(event) => setFeedUrl(event.target.value)}
+            />
+            <button
+              type="button"
+              className="kpbs-button kpbs-button--secondary"
+              onClick={handleUrlImport}
+              disabled={isImporting || !feedUrl.trim()}
+            >
+              Import
+            </button>
+          </div>
+        </div>
+        {feedMessage && <p className="kpbs-card__body">{feedMessage}</p>}
+        <div className="kpbs-inline-row">
+          <span className="kpbs-toggle__hint">
+            {importedRecords.length} imported records stored in this browser.
+          </span>
+          <button
+            type="button"
+            className="kpbs-button kpbs-button--ghost"
+            onClick={() => {
+              onClearImported()
+              setFeedMessage(null)
+            }}
+            disabled={importedRecords.length === 0}
+          >
+            Clear imported jobs
+          </button>
+        </div>
+      </div>
+    </section>
+  )
+}
+
+type ValidationReportPanelProps = {
+  quarantined: QuarantinedJobRecord[]
+  unparsedSalaryJobs: Job[]
+}
+
+const ValidationReportPanel = ({
+  quarantined,
+  unparsedSalaryJobs,
+}: ValidationReportPanelProps) => (
+  <section className="kpbs-card">
+    <h2 className="kpbs-card__title">Data validation report</h2>
+    {quarantined.length === 0 ? (
+      <p className="kpbs-card__body">
+        Every job record passed validation.
+      </p>
+    ) : (
+      <>
+        <p className="kpbs-card__body">
+          {quarantined.length} records failed validation and are quarantined.
+          They are hidden from the dashboard, digest and saved list until fixed
+          and re-imported.
+        </p>
+        <ul className="kpbs-report">
+          {quarantined.map((entry) => (
+            <li key={`${entry.origin}-${entry.index}`} className="kpbs-report__item">
+              <p className="kpbs-report__title">
+                {entry.title || 'Untitled record'}{' '}
+                <span className="kpbs-toggle__hint">
+                  ({entry.origin} row {entry.index + 1}, id {String(entry.id ?? '—')})
+                </span>
+              </p>
+              <ul className="kpbs-report__issues">
+                {entry.issues.map((issue, index) => (
+                  <li key={`${issue.field}-${index}`}>
+                    <strong>{issue.field}</strong>: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      </>
+    )}
+    {unparsedSalaryJobs.length > 0 && (
+      <>
+        <p className="kpbs-card__body kpbs-report__note">
+          {unparsedSalaryJobs.length} jobs have a salary range that could not be
+          parsed. They are shown as unverified and sorted last by salary.
+        </p>
+        <ul className="kpbs-report">
+          {unparsedSalaryJobs.map((job) => (
+            <li key={job.id} className="kpbs-report__item">
+              <p className="kpbs-report__title">
+                {job.title} — {job.company}{' '}
+                <span className="kpbs-toggle__hint">(id {job.id})</span>
+              </p>
+              <ul className="kpbs-report__issues">
+                <li>
+                  <strong>salaryRange</strong>: &quot;{job.salaryRange}&quot; has no
+                  recognizable amount and period.
+                </li>
+              </ul>
+            </li>
+          ))}
+        </ul>
+      </>
+    )}
+  </section>
+)
+
+const WEIGHT_PREVIEW_SIZE = 5
+
+type ScoringWeightsPanelProps = {
+  jobs: Job[]
+  preferences: Preferences
+  onChange: (prefs: Preferences) => void
+}
+
+const ScoringWeightsPanel = ({ jobs, preferences, onChange }: ScoringWeightsPanelProps) => {
+  const weights = preferences.scoringWeights
+  const activePreset = SCORING_PRESETS.find((preset) =>
+    SCORING_FACTORS.every(({ factor }) => preset.weights[factor] === weights[factor]),
+  )
+
+  const updateWeights = (next: ScoringWeights) =>
+    onChange({ ...preferences, scoringWeights: next })
+
+  const preview = useMemo(() => {
+    const openJobs = jobs.filter(
+      (job) => isListedOnDashboard(job, preferences) && !isHiddenByRules(job, preferences),
+    )
+    const rank = (prefs: Preferences) =>
+      openJobs
+        .map((job) => ({ job, score: computeMatchScore(job, prefs) }))
+        .sort(
+          (a, b) =>
+            b.score - a.score ||
+            postedTimestamp(b.job.postedAt) - postedTimestamp(a.job.postedAt),
+        )
+    const balancedRanks = new Map(
+      rank({ ...preferences, scoringWeights: DEFAULT_SCORING_WEIGHTS }).map(
+        ({ job }, index) => [job.id, index] as const,
+      ),
+    )
+    return rank(preferences)
+      .slice(0, WEIGHT_PREVIEW_SIZE)
+      .map((entry, index) => ({
+        ...entry,
+        shift: (balancedRanks.get(entry.job.id) ?? index) - index,
+      }))
+  }, [jobs, preferences])
+
+  return (
+    <section className="kpbs-card">
+      <h2 className="kpbs-card__title">Scoring weights</h2>
+      <p className="kpbs-card__body">
+        Decide how many points each criterion adds to a match score. Scores are
+        capped at 100.
+      </p>
+      <div className="kpbs-form">
+        <div className="kpbs-status-group">
+          {SCORING_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              type="button"
+              className={`kpbs-status-button${
+                activePreset?.id === preset.id ? ' kpbs-status-button--active' : ''
+              }`}
+              onClick={() => updateWeights(preset.weights)}
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+        {SCORING_FACTORS.map(({ factor, label }) => (
+          <div key={factor} className="kpbs-field">
+            <label className="kpbs-label" htmlFor={`weight-${factor}`}>
+              {label}
+            </label>
+            <div className="kpbs-slider-row">
+              <input
+                id={`weight-${factor}`}
+                type="range"
+                min={0}
+                max={50}
+                step={5}
+                value={weights[factor]}
+                onChange={(event) =>
+                  updateWeights({
+                    ...weights,
+                    [factor]: Number.parseInt(event.target.value, 10),
+                  })
+                }
+              />
+              <span className="kpbs-slider-value">{weights[factor]}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="kpbs-weights-preview">
+        <h3 className="kpbs-digest-job-title">Top of your dashboard</h3>
+        <p className="kpbs-toggle__hint">
+          Arrows show movement compared with the Balanced preset.
+        </p>
+        <ol className="kpbs-weights-preview__list">
+          {preview.map(({ job, score, shift }, index) => (
+            <li key={job.id} className="kpbs-weights-preview__item">
+              <span>
+                {index + 1}. {job.title} — {job.company}
+              </span>
+              <span className="kpbs-weights-preview__score">
+                {score}%{' '}
+                <span
+                  className={
+                    shift > 0
+                      ? 'kpbs-weights-preview__up'
+                      : shift < 0
+                        ? 'kpbs-weights-preview__down'
+                        : 'kpbs-weights-preview__same'
+                  }
+                >
+                  {shift > 0 ? `▲${shift}` : shift < 0 ? `▼${-shift}` : '—'}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </section>
+  )
+}
+
+type ExclusionRulesPanelProps = {
+  jobs: Job[]
+  preferences: Preferences
+  onChange: (prefs: Preferences) => void
+}
+
+const ExclusionRulesPanel = ({ jobs, preferences, onChange }: ExclusionRulesPanelProps) => {
+  const rules = preferences.exclusions
+  const matchedCount = useMemo(
+    () => jobs.filter((job) => findExclusionMatches(job, rules).length > 0).length,
+    [jobs, rules],
+  )
+
+  const updateRules = (partial: Partial<ExclusionRules>) =>
+    onChange({ ...preferences, exclusions: { ...rules, ...partial } })
+
+  const toggleExcludedMode = (mode: JobMode) =>
+    updateRules({
+      excludedModes: rules.excludedModes.includes(mode)
+        ? rules.excludedModes.filter((m) => m !== mode)
+        : [...rules.excludedModes, mode],
+    })
+
+  const toggleLocationMode = (location: string, mode: JobMode) =>
+    updateRules({
+      excludedLocations: rules.excludedLocations.map((rule) =>
+        rule.location === location
+          ? {
+              ...rule,
+              modes: rule.modes.includes(mode)
+                ? rule.modes.filter((m) => m !== mode)
+                : [...rule.modes, mode],
+            }
+          : rule,
+      ),
+    })
+
+  return (
+    <section className="kpbs-card">
+      <h2 className="kpbs-card__title">Exclusion rules</h2>
+      <p className="kpbs-card__body">
+        Jobs matching any rule are hidden from the dashboard and digest, or lose
+        points from their match score. {matchedCount} jobs match your rules right now.
+      </p>
+      <div className="kpbs-form">
+        <div className="kpbs-field">
+          <label className="kpbs-label" htmlFor="blocked-companies">
+            Blocked companies
+          </label>
+          <input
+            id="blocked-companies"
+            className="kpbs-input"
+            placeholder="e.g. Infosys, Wipro"
+            value={rules.blockedCompanies}
+            onChange={(event) => updateRules({ blockedCompanies: event.target.value })}
+          />
+        </div>
+        <div className="kpbs-field">
+          <label className="kpbs-label" htmlFor="excluded-keywords">
+            Excluded keywords in title or description
+          </label>
+          <input
+            id="excluded-keywords"
+            className="kpbs-input"
+            placeholder="e.g. bond, night shift"
+            value={rules.excludedKeywords}
+            onChange={(event) => updateRules({ excludedKeywords: event.target.value })}
+          />
+        </div>
+        <div className="kpbs-field">
+          <label className="kpbs-label" htmlFor="excluded-locations">
+            Excluded locations
+          </label>
+          <LocationPicker
+            id="excluded-locations"
+            locations={Array.from(new Set(jobs.map((job) => job.location))).sort()}
+            selected={rules.excludedLocations.map((rule) => rule.location)}
+            onChange={(locations) =>
+              updateRules({
+                excludedLocations: locations.map(
+                  (location) =>
+                    rules.excludedLocations.find((rule) => rule.location === location) ?? {
+                      location,
+                      modes: [],
+                    },
+                ),
+              })
+            }
+          />
+          {rules.excludedLocations.map((rule) => (
+            <div key={rule.location} className="kpbs-checkbox-row">
+              <span className="kpbs-toggle__hint">{rule.location}:</span>
+              {JOB_MODES.map((mode) => (
+                <label key={mode} className="kpbs-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={rule.modes.includes(mode)}
+                    onChange={() => toggleLocationMode(rule.location, mode)}
+                  />
+                  <span>{mode}</span>
+                </label>
+              ))}
+              <span className="kpbs-toggle__hint">
+                {rule.modes.length === 0 ? 'all modes' : `only ${describeLocationExclusion(rule)}`}
+              </span>
+            </div>
+          ))}
+        </div>
+        <div className="kpbs-field">
+          <span className="kpbs-label">Excluded modes</span>
+          <div className="kpbs-checkbox-row">
+            {JOB_MODES.map((mode) => (
+              <label key={mode} className="kpbs-checkbox">
+                <input
+                  type="checkbox"
+                  checked={rules.excludedModes.includes(mode)}
+                  onChange={() => toggleExcludedMode(mode)}
+                />
+                <span>{mode}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="kpbs-field">
+          <span className="kpbs-label">When a job matches</span>
+          <div className="kpbs-checkbox-row">
+            <label className="kpbs-checkbox">
+              <input
+                type="radio"
+                name="exclusion-action"
+                checked={rules.action === 'hide'}
+                onChange={() => updateRules({ action: 'hide' })}
+              />
+              <span>Hide it</span>
+            </label>
+            <label className="kpbs-checkbox">
+              <input
+                type="radio"
+                name="exclusion-action"
+                checked={rules.action === 'penalize'}
+                onChange={() => updateRules({ action: 'penalize' })}
+              />
+              <span>Lower its score</span>
+            </label>
+          </div>
+        </div>
+        {rules.action === 'penalize' && (
+          <div className="kpbs-field">
+            <label className="kpbs-label" htmlFor="exclusion-penalty">
+              Score penalty
+            </label>
+            <div className="kpbs-slider-row">
+              <input
+                id="exclusion-penalty"
+                type="range"
+                min={5}
+                max={100}
+                step={5}
+                value={rules.penalty}
+                onChange={(event) =>
+                  updateRules({ penalty: Number.parseInt(event.target.value, 10) })
+                }
+              />
+              <span className="kpbs-slider-value">{rules.penalty}</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  )
+}
+
+type CandidateProfilePanelProps = {
+  jobs: Job[]
+  preferences: Preferences
+  onChange: (prefs: Preferences) => void
+}
+
+const CandidateProfilePanel = ({ jobs, preferences, onChange }: CandidateProfilePanelProps) => {
+  const profile = preferences.candidateProfile
+  const ineligibleCount = useMemo(
+    () => jobs.filter((job) => findEligibilityIssues(job, profile).length > 0).length,
+    [jobs, profile],
+  )
+
+  const updateProfile = (partial: Partial<CandidateProfile>) =>
+    onChange({ ...preferences, candidateProfile: { ...profile, ...partial } })
+
+  return (
+    <section className="kpbs-card">
+      <h2 className="kpbs-card__title">Candidate profile</h2>
+      <p className="kpbs-card__body">
+        Used to check fresher eligibility criteria such as batch, degree, CGPA,
+        backlogs and service bond. Leave a field empty to skip that check.{' '}
+        {ineligibleCount} jobs list criteria you do not meet.
+      </p>
+      <div className="kpbs-form">
+        <div className="kpbs-field">
+          <span className="kpbs-label">Graduation year and CGPA</span>
+          <div className="kpbs-inline-row">
+            <input
+              id="graduation-year"
+              className="kpbs-input"
+              type="number"
+              min={2000}
+              step={1}
+              placeholder="Batch, e.g. 2026"
+              aria-label="Graduation year"
+              value={profile.graduationYear ?? ''}
+              onChange={(event) =>
+                updateProfile({ graduationYear: parseNonNegativeInput(event.target.value) })
+              }
+            />
+            <input
+              id="cgpa"
+              className="kpbs-input"
+              type="number"
+              min={0}
+              max={10}
+              step={0.1}
+              placeholder="CGPA, e.g. 7.2"
+              aria-label="CGPA"
+              value={profile.cgpa ?? ''}
+              onChange={(event) =>
+                updateProfile({ cgpa: parseNonNegativeInput(event.target.value) })
+              }
+            />
+          </div>
+        </div>
+        <div className="kpbs-field">
+          <span className="kpbs-label">Degree and branch</span>
+          <div className="kpbs-inline-row">
+            <input
+              id="degree"
+              className="kpbs-input"
+              placeholder="Degree, e.g. B.Tech"
+              aria-label="Degree"
+              value={profile.degree}
+              onChange={(event) => updateProfile({ degree: event.target.value })}
+            />
+            <input
+              id="branch"
+              className="kpbs-input"
+              placeholder="Branch, e.g. CSE"
+              aria-label="Branch"
+              value={profile.branch}
+              onChange={(event) => updateProfile({ branch: event.target.value })}
+            />
+          </div>
+        </div>
+        <div className="kpbs-field">
+          <span className="kpbs-label">Active backlogs and bond</span>
+          <div className="kpbs-inline-row">
+            <input
+              id="active-backlogs"
+              className="kpbs-input"
+              type="number"
+              min={0}
+              step={1}
+              placeholder="Active backlogs, e.g. 0"
+              aria-label="Active backlogs"
+              value={profile.activeBacklogs ?? ''}
+              onChange={(event) =>
+                updateProfile({ activeBacklogs: parseNonNegativeInput(event.target.value) })
+              }
+            />
+            <input
+              id="max-bond-months"
+              className="kpbs-input"
+              type="number"
+              min={0}
+              step={1}
+              placeholder="Longest bond you accept (months)"
+              aria-label="Longest service bond you accept in months"
+              value={profile.maxBondMonths ?? ''}
+              onChange={(event) =>
+                updateProfile({ maxBondMonths: parseNonNegativeInput(event.target.value) })
+              }
+            />
+          </div>
+        </div>
+        <label className="kpbs-checkbox">
+          <input
+            type="checkbox"
+            checked={preferences.hideIneligible}
+            onChange={(event) =>
+              onChange({ ...preferences, hideIneligible: event.target.checked })
+            }
+          />
+          <span>Hide jobs I am not eligible for</span>
+        </label>
+      </div>
+    </section>
+  )
+}
+
+const STAGE_TONE_LABELS: Record<StageTone, string> = {
+  neutral: 'Neutral',
+  active: 'In progress',
+  success: 'Positive',
+  closed: 'Closed',
+}
+
+type PipelinePanelProps = {
+  pipeline: Pipeline
+  onChange: (pipeline: Pipeline) => void
+}
+
+const PipelinePanel = ({ pipeline, onChange }: PipelinePanelProps) => {
+  const [newStageLabel, setNewStageLabel] = useState('')
+  const initialId = getInitialStage(pipeline).id
+
+  const handleAddStage = () => {
+    if (!newStageLabel.trim()) return
+    onChange(addStage(pipeline, newStageLabel))
+    setNewStageLabel('')
+  }
+
+  return (
+    <section className="kpbs-card">
+      <h2 className="kpbs-card__title">Application pipeline</h2>
+      <p className="kpbs-card__body">
+        Rename, reorder or add stages and choose where a job may move from each one. Every
+        job starts in the first stage; jobs in a removed stage go back to it.
+      </p>
+      <div className="kpbs-pipeline-editor">
+        {pipeline.stages.map((stage, index) => (
+          <div key={stage.id} className="kpbs-pipeline-stage">
+            <div className="kpbs-inline-row">
+              <input
+                className="kpbs-input"
+                aria-label={`Name of stage ${index + 1}`}
+                value={stage.label}
+                onChange={(event) =>
+                  onChange(updateStage(pipeline, stage.id, { label: event.target.value }))
+                }
+              />
+              <select
+                className="kpbs-input kpbs-input--select"
+                aria-label={`Colour of ${stage.label}`}
+                value={stage.tone}
+                onChange={(event) =>
+                  onChange(
+                    updateStage(pipeline, stage.id, { tone: event.target.value as StageTone }),
+                  )
+                }
+              >
+                {STAGE_TONES.map((tone) => (
+                  <option key={tone} value={tone}>
+                    {STAGE_TONE_LABELS[tone]}
+                  </option>
+                ))}
+              </select>
+              <label className="kpbs-checkbox">
+                <input
+                  type="checkbox"
+                  checked={stage.terminal}
+                  disabled={stage.id === initialId}
+                  onChange={(event) =>
+                    onChange(updateStage(pipeline, stage.id, { terminal: event.target.checked }))
+                  }
+                />
+                <span>Final outcome</span>
+              </label>
+              <button
+                type="button"
+                className="kpbs-button kpbs-button--ghost"
+                aria-label={`Move ${stage.label} up`}
+                disabled={index <= 1}
+                onClick={() => onChange(moveStage(pipeline, stage.id, -1))}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className="kpbs-button kpbs-button--ghost"
+                aria-label={`Move ${stage.label} down`}
+                disabled={index === 0 || index === pipeline.stages.length - 1}
+                onClick={() => onChange(moveStage(pipeline, stage.id, 1))}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                className="kpbs-button kpbs-button--ghost"
+                disabled={stage.id === initialId}
+                onClick={() => onChange(removeStage(pipeline, stage.id))}
+              >
+                Remove
+              </button>
+            </div>
+            <div className="kpbs-checkbox-row">
+              <span className="kpbs-pipeline-stage__hint">Can move to</span>
+              {pipeline.stages
+                .filter((target) => target.id !== stage.id)
+                .map((target) => (
+                  <label key={target.id} className="kpbs-checkbox">
+                    <input
+                      type="checkbox"
+                      checked={canTransition(pipeline, stage.id, target.id)}
+                      onChange={() => onChange(toggleTransition(pipeline, stage.id, target.id))}
+                    />
+                    <span>{target.label}</span>
+                  </label>
+                ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="kpbs-inline-row">
+        <input
+          className="kpbs-input"
+          aria-label="New stage name"
+          placeholder="e.g. Managerial round"
+          value={newStageLabel}
+          onChange={(event) => setNewStageLabel(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') handleAddStage()
+          }}
+        />
+        <button
+          type="button"
+          className="kpbs-button kpbs-button--secondary"
+          disabled={!newStageLabel.trim()}
+          onClick={handleAddStage}
+        >
+          Add stage
+        </button>
+        <button
+          type="button"
+          className="kpbs-button kpbs-button--ghost"
+          onClick={() => onChange(DEFAULT_PIPELINE)}
+        >
+          Reset to default
+        </button>
+      </div>
+    </section>
+  )
+}
+
+type CalendarExportPanelProps = {
+  events: CalendarEvent[]
+}
+
+const CalendarExportPanel = ({ events }: CalendarExportPanelProps) => {
+  const deadlineCount = events.filter((event) => event.allDay).length
+  const cancelledCount = events.filter((event) => event.cancelled).length
+  return (
+    <section className="kpbs-card">
+      <h2 className="kpbs-card__title">Calendar export</h2>
+      <p className="kpbs-card__body">
+        Download the deadlines of saved and tracked jobs and your reminders as one .ics
+        file. Each event keeps the same ID across exports, so importing a newer file updates
+        your calendar instead of adding duplicates, and reminders you marked done are sent
+        as cancelled so they disappear from it.
+      </p>
+      <div className="kpbs-inline-row">
+        <span className="kpbs-toggle__hint">
+          {deadlineCount} deadlines · {events.length - deadlineCount - cancelledCount} open
+          reminders · {cancelledCount} done
+        </span>
+        <button
+          type="button"
+          className="kpbs-button kpbs-button--secondary"
+          disabled={events.length === 0}
+          onClick={() => downloadCalendar(events, 'job-applications.ics')}
+        >
+          Download .ics
+        </button>
+      </div>
+    </section>
+  )
+}
+
+const SKILL_SUGGESTION_LIMIT = 6
+
 type SettingsPageProps = {
-  jobsCount: number
+  jobs: Job[]
+  listedJobs: Job[]
+  importedRecords: RawJobRecord[]
+  quarantined: QuarantinedJobRecord[]
   preferences: Preferences
+  pipeline: Pipeline
+  calendarEvents: CalendarEvent[]
   onChange: (prefs: Preferences) => void
+  onPipelineChange: (pipeline: Pipeline) => void
+  onImportJobs: (records: RawJobRecord[]) => void
+  onClearImportedJobs: () => void
 }
 
-const SettingsPage = ({ jobsCount, preferences, onChange }: SettingsPageProps) => {
+const SettingsPage = ({
+  jobs,
+  listedJobs,
+  importedRecords,
+  quarantined,
+  preferences,
+  pipeline,
+  calendarEvents,
+  onChange,
+  onPipelineChange,
+  onImportJobs,
+  onClearImportedJobs,
+}: SettingsPageProps) => {
+  const unparsedSalaryJobs = useMemo(() => jobs.filter((job) => !job.salary), [jobs])
+  const recognizedSkills = useMemo(
+    () => canonicalizeSkills(splitCommaSeparated(preferences.skills)),
+    [preferences.skills],
+  )
+
   const toggleMode = (mode: JobMode) => {
     const exists = preferences.preferredModes.includes(mode)
     const nextModes = exists
@@ -584,14 +2252,29 @@ const SettingsPage = ({ jobsCount, preferences, onChange }: SettingsPageProps) =
     onChange({ ...preferences, preferredModes: nextModes })
   }
 
-  const handleLocationsChange = (
-    event: ChangeEvent<HTMLSelectElement>,
-  ): void => {
-    const selected = Array.from(event.target.selectedOptions).map(
-      (opt) => opt.value,
-    )
-    onChange({ ...preferences, preferredLocations: selected })
-  }
+  const updateExperience = (min: number | null, max: number | null) =>
+    onChange({
+      ...preferences,
+      experienceLevel:
+        min === null && max === null
+          ? null
+          : { min: min ?? 0, max: Math.max(max ?? min ?? 0, min ?? 0) },
+    })
+
+  const skillSegments = preferences.skills.split(',')
+  const skillSuggestions = suggestSkills(
+    skillSegments[skillSegments.length - 1] ?? '',
+    skillSegments.slice(0, -1),
+    SKILL_SUGGESTION_LIMIT,
+  )
+
+  const applySkillSuggestion = (skill: string) =>
+    onChange({
+      ...preferences,
+      skills: [...skillSegments.slice(0, -1).map((segment) => segment.trim()), skill]
+        .filter(Boolean)
+        .join(', '),
+    })
 
   return (
     <main className="kpbs-page">
@@ -599,7 +2282,7 @@ const SettingsPage = ({ jobsCount, preferences, onChange }: SettingsPageProps) =
       <section className="kpbs-card">
         <p className="kpbs-page__subtitle">
           Define the preferences Job Notification Tracker will use in the next
-          step. The current dataset includes {jobsCount} live opportunities.
+          step. The current dataset includes {jobs.length} live opportunities.
         </p>
         <form className="kpbs-form">
           <div className="kpbs-field">
@@ -612,81 +2295,203 @@ const SettingsPage = ({ jobsCount, preferences, onChange }: SettingsPageProps) =
               placeholder="e.g. SDE Intern, React Developer"
               value={preferences.roleKeywords}
               onChange={(event) =>
-                onChange({ ...preferences, roleKeywords: event.target.value })
+                onChange({ ...preferences, roleKeywords: event.target.value })
+              }
+            />
+          </div>
+          <div className="kpbs-field">
+            <label className="kpbs-label" htmlFor="preferred-locations">
+              Preferred locations
+            </label>
+            <LocationPicker
+              id="preferred-locations"
+              locations={Array.from(new Set(jobs.map((job) => job.location))).sort()}
+              selected={preferences.preferredLocations}
+              onChange={(preferredLocations) => onChange({ ...preferences, preferredLocations })}
+            />
+          </div>
+          <div className="kpbs-field">
+            <span className="kpbs-label">Preferred mode</span>
+            <div className="kpbs-checkbox-row">
+              {JOB_MODES.map((mode) => (
+                <label key={mode} className="kpbs-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={preferences.preferredModes.includes(mode)}
+                    onChange={() => toggleMode(mode)}
+                  />
+                  <span>{mode}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="kpbs-field">
+            <span className="kpbs-label">Experience (years)</span>
+            <div className="kpbs-inline-row">
+              <input
+                id="experience-min"
+                className="kpbs-input"
+                type="number"
+                min={0}
+                step={0.5}
+                placeholder="From, e.g. 0"
+                aria-label="Minimum years of experience"
+                value={preferences.experienceLevel?.min ?? ''}
+                onChange={(event) =>
+                  updateExperience(
+                    parseNonNegativeInput(event.target.value),
+                    preferences.experienceLevel?.max ?? null,
+                  )
+                }
+              />
+              <input
+                id="experience-max"
+                className="kpbs-input"
+                type="number"
+                min={0}
+                step={0.5}
+                placeholder="To, e.g. 1"
+                aria-label="Maximum years of experience"
+                value={preferences.experienceLevel?.max ?? ''}
+                onChange={(event) =>
+                  updateExperience(
+                    preferences.experienceLevel?.min ?? null,
+                    parseNonNegativeInput(event.target.value),
+                  )
+                }
+              />
+            </div>
+            <div className="kpbs-status-group">
+              {JOB_EXPERIENCES.map((level) => (
+                <button
+                  key={level}
+                  type="button"
+                  className="kpbs-status-button"
+                  onClick={() =>
+                    onChange({ ...preferences, experienceLevel: EXPERIENCE_RANGES[level] })
+                  }
+                >
+                  {level}
+                </button>
+              ))}
+            </div>
+            {preferences.experienceLevel && (
+              <span className="kpbs-toggle__hint">
+                Matching roles for {formatExperienceRange(preferences.experienceLevel)}.
+                Adjacent levels earn partial credit.
+              </span>
+            )}
+          </div>
+          <div className="kpbs-field">
+            <label className="kpbs-label" htmlFor="skills">
+              Skills
+            </label>
+            <input
+              id="skills"
+              className="kpbs-input"
+              placeholder="e.g. React, Java, SQL"
+              value={preferences.skills}
+              onChange={(event) =>
+                onChange({ ...preferences, skills: event.target.value })
               }
             />
-          </div>
-          <div className="kpbs-field">
-            <label className="kpbs-label" htmlFor="preferred-locations">
-              Preferred locations
-            </label>
-            <select
-              id="preferred-locations"
-              multiple
-              className="kpbs-input kpbs-input--select kpbs-input--multiselect"
-              value={preferences.preferredLocations}
-              onChange={handleLocationsChange}
-            >
-              {Array.from(new Set(JOBS.map((job) => job.location)))
-                .sort()
-                .map((location) => (
-                  <option key={location} value={location}>
-                    {location}
-                  </option>
+            {skillSuggestions.length > 0 && (
+              <div className="kpbs-status-group">
+                {skillSuggestions.map((skill) => (
+                  <button
+                    key={skill}
+                    type="button"
+                    className="kpbs-status-button"
+                    onClick={() => applySkillSuggestion(skill)}
+                  >
+                    {skill}
+                  </button>
                 ))}
-            </select>
+              </div>
+            )}
+            {recognizedSkills.length > 0 && (
+              <div className="kpbs-modal__skills">
+                {recognizedSkills.map((skill) => (
+                  <span key={skill} className="kpbs-pill kpbs-pill--skill">
+                    {skill}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
           <div className="kpbs-field">
-            <span className="kpbs-label">Preferred mode</span>
-            <div className="kpbs-checkbox-row">
-              {(['Remote', 'Hybrid', 'Onsite'] as JobMode[]).map((mode) => (
-                <label key={mode} className="kpbs-checkbox">
-                  <input
-                    type="checkbox"
-                    checked={preferences.preferredModes.includes(mode)}
-                    onChange={() => toggleMode(mode)}
-                  />
-                  <span>{mode}</span>
-                </label>
-              ))}
+            <span className="kpbs-label">Expected salary (LPA)</span>
+            <div className="kpbs-inline-row">
+              <input
+                id="expected-salary-min"
+                className="kpbs-input"
+                type="number"
+                min={0}
+                step={0.5}
+                placeholder="Min, e.g. 6"
+                aria-label="Expected minimum salary in LPA"
+                value={preferences.expectedSalaryMin ?? ''}
+                onChange={(event) =>
+                  onChange({
+                    ...preferences,
+                    expectedSalaryMin: parseNonNegativeInput(event.target.value),
+                  })
+                }
+              />
+              <input
+                id="expected-salary-max"
+                className="kpbs-input"
+                type="number"
+                min={0}
+                step={0.5}
+                placeholder="Max, e.g. 12"
+                aria-label="Expected maximum salary in LPA"
+                value={preferences.expectedSalaryMax ?? ''}
+                onChange={(event) =>
+                  onChange({
+                    ...preferences,
+                    expectedSalaryMax: parseNonNegativeInput(event.target.value),
+                  })
+                }
+              />
             </div>
+            <label className="kpbs-checkbox">
+              <input
+                type="checkbox"
+                checked={preferences.hideBelowSalaryFloor}
+                disabled={preferences.expectedSalaryMin === null}
+                onChange={(event) =>
+                  onChange({
+                    ...preferences,
+                    hideBelowSalaryFloor: event.target.checked,
+                  })
+                }
+              />
+              <span>Hide jobs paying below my minimum</span>
+            </label>
           </div>
           <div className="kpbs-field">
-            <label className="kpbs-label" htmlFor="experience-level">
-              Experience level
+            <label className="kpbs-label" htmlFor="max-job-age">
+              Hide jobs older than
             </label>
             <select
-              id="experience-level"
+              id="max-job-age"
               className="kpbs-input kpbs-input--select"
-              value={preferences.experienceLevel}
+              value={preferences.maxJobAgeDays}
               onChange={(event) =>
                 onChange({
                   ...preferences,
-                  experienceLevel: event.target.value as Preferences['experienceLevel'],
+                  maxJobAgeDays: Number.parseInt(event.target.value, 10),
                 })
               }
             >
-              <option value="">All experience levels</option>
-              <option value="Fresher">Fresher</option>
-              <option value="0-1">0-1</option>
-              <option value="1-3">1-3</option>
-              <option value="3-5">3-5</option>
+              {JOB_AGE_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {days === 0 ? 'Never hide old jobs' : `${days} days`}
+                </option>
+              ))}
             </select>
           </div>
-          <div className="kpbs-field">
-            <label className="kpbs-label" htmlFor="skills">
-              Skills
-            </label>
-            <input
-              id="skills"
-              className="kpbs-input"
-              placeholder="e.g. React, Java, SQL"
-              value={preferences.skills}
-              onChange={(event) =>
-                onChange({ ...preferences, skills: event.target.value })
-              }
-            />
-          </div>
           <div className="kpbs-field">
             <label className="kpbs-label" htmlFor="min-match-score">
               Minimum match score
@@ -713,28 +2518,50 @@ const SettingsPage = ({ jobsCount, preferences, onChange }: SettingsPageProps) =
           </div>
         </form>
       </section>
+      <ScoringWeightsPanel jobs={listedJobs} preferences={preferences} onChange={onChange} />
+      <ExclusionRulesPanel jobs={jobs} preferences={preferences} onChange={onChange} />
+      <CandidateProfilePanel jobs={jobs} preferences={preferences} onChange={onChange} />
+      <PipelinePanel pipeline={pipeline} onChange={onPipelineChange} />
+      <CalendarExportPanel events={calendarEvents} />
+      <JobFeedPanel
+        importedRecords={importedRecords}
+        onImport={onImportJobs}
+        onClearImported={onClearImportedJobs}
+      />
+      <ValidationReportPanel
+        quarantined={quarantined}
+        unparsedSalaryJobs={unparsedSalaryJobs}
+      />
     </main>
   )
 }
 
 type SavedPageProps = {
+  jobs: Job[]
+  clusterByJobId: Map<number, JobCluster>
   savedJobIds: number[]
   onViewJob: (job: Job) => void
   preferences: Preferences
   jobStatuses: Record<number, JobStatusRecord>
-  onChangeStatus: (jobId: number, status: JobStatus) => void
+  pipeline: Pipeline
+  onChangeStatus: (jobId: number, stageId: string) => void
+  onApplyJob: (job: Job) => void
 }
 
 const SavedPage = ({
+  jobs,
+  clusterByJobId,
   savedJobIds,
   onViewJob,
   preferences,
   jobStatuses,
+  pipeline,
   onChangeStatus,
+  onApplyJob,
 }: SavedPageProps) => {
   const savedJobs = useMemo(
-    () => JOBS.filter((job) => savedJobIds.includes(job.id)),
-    [savedJobIds],
+    () => jobs.filter((job) => savedJobIds.includes(job.id)),
+    [jobs, savedJobIds],
   )
 
   return (
@@ -753,16 +2580,16 @@ const SavedPage = ({
             <JobCard
               key={job.id}
               job={job}
+              sources={clusterByJobId.get(job.id)?.members}
               matchScore={computeMatchScore(job, preferences)}
-              status={
-                jobStatuses[job.id]?.status
-                  ? jobStatuses[job.id]!.status
-                  : 'Not Applied'
-              }
+              ineligibleReasons={findEligibilityIssues(job, preferences.candidateProfile)}
+              pipeline={pipeline}
+              stageId={jobStatuses[job.id]?.status}
               isSaved
               onSave={() => {}}
+              onApply={onApplyJob}
               onView={onViewJob}
-              onStatusChange={(nextStatus) => onChangeStatus(job.id, nextStatus)}
+              onStageChange={(stageId) => onChangeStatus(job.id, stageId)}
             />
           ))}
         </section>
@@ -771,6 +2598,132 @@ const SavedPage = ({
   )
 }
 
+type PipelinePageProps = {
+  jobs: Job[]
+  savedJobIds: number[]
+  jobStatuses: Record<number, JobStatusRecord>
+  pipeline: Pipeline
+  onChangeStatus: (jobId: number, stageId: string) => void
+  onViewJob: (job: Job) => void
+}
+
+const PipelinePage = ({
+  jobs,
+  savedJobIds,
+  jobStatuses,
+  pipeline,
+  onChangeStatus,
+  onViewJob,
+}: PipelinePageProps) => {
+  const [draggedJobId, setDraggedJobId] = useState<number | null>(null)
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+
+  const columns = useMemo(() => {
+    const tracked = jobs.filter((job) => jobStatuses[job.id] || savedJobIds.includes(job.id))
+    return pipeline.stages.map((stage) => ({
+      stage,
+      jobs: tracked.filter((job) => findStage(pipeline, jobStatuses[job.id]?.status).id === stage.id),
+    }))
+  }, [jobs, savedJobIds, jobStatuses, pipeline])
+
+  const draggedStageId =
+    draggedJobId === null ? null : findStage(pipeline, jobStatuses[draggedJobId]?.status).id
+  const canDropOn = (stageId: string) =>
+    draggedStageId !== null && canTransition(pipeline, draggedStageId, stageId)
+
+  const endDrag = () => {
+    setDraggedJobId(null)
+    setDropTargetId(null)
+  }
+
+  const trackedCount = columns.reduce((total, column) => total + column.jobs.length, 0)
+
+  return (
+    <main className="kpbs-page kpbs-page--wide">
+      <h1 className="kpbs-page__title">Pipeline</h1>
+      {trackedCount === 0 ? (
+        <section className="kpbs-card kpbs-card--empty">
+          <h2 className="kpbs-card__title">No tracked applications yet.</h2>
+          <p className="kpbs-card__body">
+            Save a job or move it to a stage from the dashboard to see it on the board.
+          </p>
+        </section>
+      ) : (
+        <section className="kpbs-kanban">
+          {columns.map(({ stage, jobs: stageJobs }) => (
+            <div
+              key={stage.id}
+              className={`kpbs-kanban__column${
+                stage.terminal ? ' kpbs-kanban__column--terminal' : ''
+              }${canDropOn(stage.id) ? ' kpbs-kanban__column--droppable' : ''}${
+                dropTargetId === stage.id ? ' kpbs-kanban__column--over' : ''
+              }`}
+              onDragOver={(event) => {
+                if (!canDropOn(stage.id)) return
+                event.preventDefault()
+                setDropTargetId(stage.id)
+              }}
+              onDragLeave={() => setDropTargetId(null)}
+              onDrop={(event) => {
+                event.preventDefault()
+                if (draggedJobId !== null) onChangeStatus(draggedJobId, stage.id)
+                endDrag()
+              }}
+            >
+              <header className="kpbs-kanban__header">
+                <span className={`kpbs-badge kpbs-badge--status-${stage.tone}`}>
+                  {stage.label}
+                </span>
+                <span className="kpbs-kanban__count">{stageJobs.length}</span>
+              </header>
+              {stageJobs.map((job) => (
+                <article
+                  key={job.id}
+                  className={`kpbs-kanban__card${
+                    draggedJobId === job.id ? ' kpbs-kanban__card--dragging' : ''
+                  }`}
+                  draggable
+                  onDragStart={(event) => {
+                    event.dataTransfer.effectAllowed = 'move'
+                    event.dataTransfer.setData('text/plain', String(job.id))
+                    setDraggedJobId(job.id)
+                  }}
+                  onDragEnd={endDrag}
+                >
+                  <button
+                    type="button"
+                    className="kpbs-kanban__title"
+                    onClick={() => onViewJob(job)}
+                  >
+                    {job.title}
+                  </button>
+                  <p className="kpbs-kanban__meta">
+                    {job.company} · {job.location}
+                  </p>
+                  {jobStatuses[job.id] && (
+                    <p className="kpbs-kanban__meta">
+                      {formatDays(
+                        daysBetween(new Date(jobStatuses[job.id]!.updatedAt), new Date()),
+                      )}{' '}
+                      in stage
+                    </p>
+                  )}
+                  <StagePicker
+                    id={`kanban-stage-${job.id}`}
+                    pipeline={pipeline}
+                    stage={stage}
+                    onChange={(stageId) => onChangeStatus(job.id, stageId)}
+                  />
+                </article>
+              ))}
+            </div>
+          ))}
+        </section>
+      )}
+    </main>
+  )
+}
+
 type DigestItem = {
   jobId: number
   score: number
@@ -782,11 +2735,7 @@ type DigestState = {
 }
 
 const getTodayDigestKey = () => {
-  const today = new Date()
-  const yyyy = today.getFullYear()
-  const mm = String(today.getMonth() + 1).padStart(2, '0')
-  const dd = String(today.getDate()).padStart(2, '0')
-  const dateStr = `${yyyy}-${mm}-${dd}`
+  const dateStr = toDateKey(new Date())
   return {
     key: `jobTrackerDigest_${dateStr}`,
     dateStr,
@@ -794,12 +2743,20 @@ const getTodayDigestKey = () => {
 }
 
 type DigestPageProps = {
+  jobs: Job[]
   preferences: Preferences
   hasPreferences: boolean
   jobStatuses: Record<number, JobStatusRecord>
+  pipeline: Pipeline
 }
 
-const DigestPage = ({ preferences, hasPreferences, jobStatuses }: DigestPageProps) => {
+const DigestPage = ({
+  jobs,
+  preferences,
+  hasPreferences,
+  jobStatuses,
+  pipeline,
+}: DigestPageProps) => {
   const [{ key: digestKey, dateStr }] = useState(getTodayDigestKey)
   const [digest, setDigest] = useState<DigestState | null>(null)
   const [isGenerating, setIsGenerating] = useState(false)
@@ -821,15 +2778,33 @@ const DigestPage = ({ preferences, hasPreferences, jobStatuses }: DigestPageProp
 
   const digestJobs = useMemo(() => {
     if (!digest) return []
-    const byId = new Map(JOBS.map((job) => [job.id, job] as const))
+    const byId = new Map(jobs.map((job) => [job.id, job] as const))
     return digest.items
       .map(({ jobId, score }) => {
         const job = byId.get(jobId)
-        if (!job) return null
+        if (
+          !job ||
+          isJobClosed(job) ||
+          isHiddenByRules(job, preferences) ||
+          isHiddenByEligibility(job, preferences)
+        ) {
+          return null
+        }
         return { job, score }
       })
       .filter(Boolean) as { job: Job; score: number }[]
-  }, [digest])
+  }, [digest, jobs, preferences])
+
+  const hiddenByRulesCount = useMemo(
+    () =>
+      jobs.filter(
+        (job) =>
+          !isJobClosed(job) &&
+          !isStale(job.postedAt, preferences.maxJobAgeDays) &&
+          isHiddenByRules(job, preferences),
+      ).length,
+    [jobs, preferences],
+  )
 
   const generateDigest = () => {
     if (!hasPreferences) return
@@ -845,12 +2820,20 @@ const DigestPage = ({ preferences, hasPreferences, jobStatuses }: DigestPageProp
         }
       }
 
-      const jobsWithScores = JOBS.map((job) => ({
+      const jobsWithScores = jobs.map((job) => ({
         job,
         score: computeMatchScore(job, preferences),
       }))
 
-      const matching = jobsWithScores.filter(({ score }) => score > 0)
+      const matching = jobsWithScores.filter(
+        ({ job, score }) =>
+          score > 0 &&
+          !isJobClosed(job) &&
+          !isHiddenBySalaryFloor(job, preferences) &&
+          !isHiddenByRules(job, preferences) &&
+          !isHiddenByEligibility(job, preferences) &&
+          !isStale(job.postedAt, preferences.maxJobAgeDays),
+      )
       if (matching.length === 0) {
         const emptyDigest: DigestState = { date: dateStr, items: [] }
         window.localStorage.setItem(
@@ -864,7 +2847,7 @@ const DigestPage = ({ preferences, hasPreferences, jobStatuses }: DigestPageProp
 
       matching.sort((a, b) => {
         if (b.score !== a.score) return b.score - a.score
-        return a.job.postedDaysAgo - b.job.postedDaysAgo
+        return postedTimestamp(b.job.postedAt) - postedTimestamp(a.job.postedAt)
       })
 
       const top10 = matching.slice(0, 10)
@@ -892,6 +2875,9 @@ const DigestPage = ({ preferences, hasPreferences, jobStatuses }: DigestPageProp
       lines.push(
         `${index + 1}. ${job.title} — ${job.company} (${job.location}, ${job.experience}) — Match: ${score}%`,
       )
+      const { hits, misses } = summarizeBreakdown(computeMatchBreakdown(job, preferences))
+      if (hits.length > 0) lines.push(`   Matched: ${hits.join('; ')}`)
+      if (misses.length > 0) lines.push(`   Missed: ${misses.join('; ')}`)
       lines.push(`   Apply: ${job.applyUrl}`)
       lines.push('')
     })
@@ -924,7 +2910,7 @@ const DigestPage = ({ preferences, hasPreferences, jobStatuses }: DigestPageProp
   const recentStatusUpdates = useMemo(() => {
     const entries = Object.entries(jobStatuses)
     if (entries.length === 0) return []
-    const jobsById = new Map(JOBS.map((job) => [job.id, job] as const))
+    const jobsById = new Map(jobs.map((job) => [job.id, job] as const))
     return entries
       .map(([id, record]) => {
         const job = jobsById.get(Number(id))
@@ -938,7 +2924,7 @@ const DigestPage = ({ preferences, hasPreferences, jobStatuses }: DigestPageProp
           new Date(a!.record.updatedAt).getTime(),
       )
       .slice(0, 5) as { job: Job; record: JobStatusRecord }[]
-  }, [jobStatuses])
+  }, [jobs, jobStatuses])
 
   return (
     <main className="kpbs-page">
@@ -964,6 +2950,12 @@ const DigestPage = ({ preferences, hasPreferences, jobStatuses }: DigestPageProp
                   Top 10 Jobs For You — 9AM Digest
                 </h2>
                 <p className="kpbs-digest-subtitle">{dateStr}</p>
+                {hiddenByRulesCount > 0 && (
+                  <p className="kpbs-toggle__hint">
+                    {hiddenByRulesCount} jobs hidden by your exclusion rules.{' '}
+                    <Link to="/dashboard?hidden=1">Reveal them on the dashboard.</Link>
+                  </p>
+                )}
               </div>
               <button
                 type="button"
@@ -991,6 +2983,10 @@ const DigestPage = ({ preferences, hasPreferences, jobStatuses }: DigestPageProp
                         <p className="kpbs-digest-job-meta">
                           {job.company} · {job.location} · {job.experience}
                         </p>
+                        <MatchBreakdownView
+                          breakdown={computeMatchBreakdown(job, preferences)}
+                          compact
+                        />
                       </div>
                       <div className="kpbs-digest-job-actions">
                         <span className="kpbs-badge kpbs-badge--score">
@@ -1013,96 +3009,619 @@ const DigestPage = ({ preferences, hasPreferences, jobStatuses }: DigestPageProp
                     </div>
                   ))}
                 </div>
-                <footer className="kpbs-digest-footer">
-                  <p className="kpbs-card__body">
-                    This digest was generated based on your preferences.
-                  </p>
-                  <div className="kpbs-digest-actions">
-                    <button
-                      type="button"
-                      className="kpbs-button kpbs-button--secondary"
-                      onClick={handleCopy}
-                      disabled={!digest || digestJobs.length === 0}
-                    >
-                      Copy Digest to Clipboard
-                    </button>
-                    <button
-                      type="button"
-                      className="kpbs-button kpbs-button--ghost"
-                      onClick={handleEmailDraft}
-                      disabled={!digest || digestJobs.length === 0}
-                    >
-                      Create Email Draft
-                    </button>
-                  </div>
-                  <p className="kpbs-digest-note">
-                    Demo Mode: Daily 9AM trigger simulated manually.
-                  </p>
-                </footer>
-              </>
-            ) : (
-              <div className="kpbs-digest-empty">
-                <p className="kpbs-card__body">
-                  Generate today&apos;s digest to see your top matches.
-                </p>
-                <p className="kpbs-digest-note">
-                  Demo Mode: Daily 9AM trigger simulated manually.
-                </p>
+                <footer className="kpbs-digest-footer">
+                  <p className="kpbs-card__body">
+                    This digest was generated based on your preferences.
+                  </p>
+                  <div className="kpbs-digest-actions">
+                    <button
+                      type="button"
+                      className="kpbs-button kpbs-button--secondary"
+                      onClick={handleCopy}
+                      disabled={!digest || digestJobs.length === 0}
+                    >
+                      Copy Digest to Clipboard
+                    </button>
+                    <button
+                      type="button"
+                      className="kpbs-button kpbs-button--ghost"
+                      onClick={handleEmailDraft}
+                      disabled={!digest || digestJobs.length === 0}
+                    >
+                      Create Email Draft
+                    </button>
+                  </div>
+                  <p className="kpbs-digest-note">
+                    Demo Mode: Daily 9AM trigger simulated manually.
+                  </p>
+                </footer>
+              </>
+            ) : (
+              <div className="kpbs-digest-empty">
+                <p className="kpbs-card__body">
+                  Generate today&apos;s digest to see your top matches.
+                </p>
+                <p className="kpbs-digest-note">
+                  Demo Mode: Daily 9AM trigger simulated manually.
+                </p>
+              </div>
+            )}
+          </section>
+          {recentStatusUpdates.length > 0 && (
+            <section className="kpbs-card">
+              <h2 className="kpbs-card__title">Recent Status Updates</h2>
+              <div className="kpbs-digest-jobs">
+                {recentStatusUpdates.map(({ job, record }) => {
+                  const stage = findStage(pipeline, record.status)
+                  return (
+                    <div
+                      key={`${job.id}-${record.updatedAt}`}
+                      className="kpbs-digest-job"
+                    >
+                      <div className="kpbs-digest-job-main">
+                        <h3 className="kpbs-digest-job-title">{job.title}</h3>
+                        <p className="kpbs-digest-job-meta">{job.company}</p>
+                      </div>
+                      <div className="kpbs-digest-job-actions">
+                        <span
+                          className={`kpbs-badge kpbs-badge--status kpbs-badge--status-${stage.tone}`}
+                        >
+                          {stage.label}
+                        </span>
+                        <span className="kpbs-job-card__posted">
+                          {new Date(record.updatedAt).toLocaleDateString()}
+                        </span>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </section>
+          )}
+        </>
+      )}
+    </main>
+  )
+}
+
+const ProofPage = () => (
+  <main className="kpbs-page">
+    <h1 className="kpbs-page__title">Proof</h1>
+    <section className="kpbs-card kpbs-card--empty">
+      <h2 className="kpbs-card__title">Artifact collection coming next.</h2>
+      <p className="kpbs-card__body">
+        In the next step, you will attach artifacts that show how tracking
+        performs across job searches and applications.
+      </p>
+    </section>
+  </main>
+)
+
+const NoteInlineContent = ({ content }: { content: NoteInline[] }) => (
+  <>
+    {content.map((part, index) => {
+      if (part.kind === 'link') {
+        return (
+          <a key={index} href={part.href} target="_blank" rel="noreferrer">
+            {part.text}
+          </a>
+        )
+      }
+      if (part.kind === 'bold') return <strong key={index}>{part.text}</strong>
+      if (part.kind === 'code') return <code key={index}>{part.text}</code>
+      return <span key={index}>{part.text}</span>
+    })}
+  </>
+)
+
+const NotesPreview = ({ notes }: { notes: string }) => {
+  const blocks = parseNotes(notes)
+  if (blocks.length === 0) return <p className="kpbs-toggle__hint">Nothing to preview yet.</p>
+  return (
+    <div className="kpbs-notes-preview">
+      {blocks.map((block, index) => {
+        if (block.kind === 'heading') {
+          return (
+            <h4 key={index} className="kpbs-notes-preview__heading">
+              <NoteInlineContent content={block.content} />
+            </h4>
+          )
+        }
+        if (block.kind === 'list') {
+          const List = block.ordered ? 'ol' : 'ul'
+          return (
+            <List key={index}>
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>
+                  <NoteInlineContent content={item} />
+                </li>
+              ))}
+            </List>
+          )
+        }
+        return (
+          <p key={index}>
+            {block.lines.map((line, lineIndex) => (
+              <span key={lineIndex}>
+                {lineIndex > 0 && <br />}
+                <NoteInlineContent content={line} />
+              </span>
+            ))}
+          </p>
+        )
+      })}
+    </div>
+  )
+}
+
+const EMPTY_CONTACT: Omit<JobContact, 'id'> = { name: '', role: '', email: '', linkedin: '' }
+
+type JobWorkspacePanelProps = {
+  workspace: JobWorkspace
+  onChange: (partial: Partial<JobWorkspace>) => void
+}
+
+const JobWorkspacePanel = ({ workspace, onChange }: JobWorkspacePanelProps) => {
+  const [draftContact, setDraftContact] = useState(EMPTY_CONTACT)
+  const [contactIssues, setContactIssues] = useState<string[]>([])
+  const [isUploading, setIsUploading] = useState(false)
+  const [attachmentMessage, setAttachmentMessage] = useState<string | null>(null)
+  const [isPreviewingNotes, setIsPreviewingNotes] = useState(false)
+
+  const updateDraft = (partial: Partial<Omit<JobContact, 'id'>>) =>
+    setDraftContact((prev) => ({ ...prev, ...partial }))
+
+  const handleAddContact = () => {
+    const issues = findContactIssues(draftContact)
+    setContactIssues(issues)
+    if (issues.length > 0) return
+    onChange({
+      contacts: [
+        ...workspace.contacts,
+        {
+          id: createWorkspaceId(),
+          name: draftContact.name.trim(),
+          role: draftContact.role.trim(),
+          email: draftContact.email.trim(),
+          linkedin: normalizeLinkedIn(draftContact.linkedin),
+        },
+      ],
+    })
+    setDraftContact(EMPTY_CONTACT)
+  }
+
+  const handleAttach = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    event.target.value = ''
+    if (files.length === 0) return
+    setIsUploading(true)
+    setAttachmentMessage(null)
+    const added: JobAttachment[] = []
+    try {
+      for (const file of files) {
+        const id = createWorkspaceId()
+        await putAttachment(id, file)
+        added.push({
+          id,
+          name: file.name,
+          type: file.type,
+          size: file.size,
+          addedAt: new Date().toISOString(),
+        })
+      }
+    } catch (error) {
+      setAttachmentMessage(error instanceof Error ? error.message : 'Could not store this file.')
+    } finally {
+      if (added.length > 0) onChange({ attachments: [...workspace.attachments, ...added] })
+      setIsUploading(false)
+    }
+  }
+
+  const handleDownload = async (attachment: JobAttachment) => {
+    try {
+      const blob = await getAttachment(attachment.id)
+      if (!blob) {
+        setAttachmentMessage(`${attachment.name} is no longer stored in this browser.`)
+        return
+      }
+      downloadBlob(blob, attachment.name)
+    } catch (error) {
+      setAttachmentMessage(error instanceof Error ? error.message : 'Could not open this file.')
+    }
+  }
+
+  const handleRemoveAttachment = async (attachment: JobAttachment) => {
+    onChange({ attachments: workspace.attachments.filter(({ id }) => id !== attachment.id) })
+    try {
+      await deleteAttachment(attachment.id)
+    } catch {
+      // ignore storage failures; the file is already unlinked from the job
+    }
+  }
+
+  return (
+    <div className="kpbs-modal__workspace">
+      <div className="kpbs-inline-row">
+        <h3 className="kpbs-digest-job-title">Notes</h3>
+        <button
+          type="button"
+          className="kpbs-button kpbs-button--ghost"
+          aria-pressed={isPreviewingNotes}
+          onClick={() => setIsPreviewingNotes((prev) => !prev)}
+        >
+          {isPreviewingNotes ? 'Write' : 'Preview'}
+        </button>
+      </div>
+      {isPreviewingNotes ? (
+        <NotesPreview notes={workspace.notes} />
+      ) : (
+        <>
+          <textarea
+            className="kpbs-input kpbs-textarea"
+            aria-label="Notes"
+            rows={5}
+            placeholder="Recruiter name, interview questions, the resume version you sent…"
+            value={workspace.notes}
+            onChange={(event) => onChange({ notes: event.target.value })}
+          />
+          <span className="kpbs-toggle__hint">
+            Supports # headings, - and 1. lists, **bold**, `code` and [links](https://…).
+          </span>
+        </>
+      )}
+      <h3 className="kpbs-digest-job-title">Contacts</h3>
+      {workspace.contacts.length > 0 && (
+        <ul className="kpbs-workspace-list">
+          {workspace.contacts.map((contact) => (
+            <li key={contact.id} className="kpbs-workspace-list__item">
+              <div>
+                <strong>{contact.name}</strong>
+                {contact.role && <> · {contact.role}</>}
+                <div className="kpbs-modal__meta">
+                  {contact.email && <a href={`mailto:${contact.email}`}>{contact.email}</a>}
+                  {contact.email && contact.linkedin && ' · '}
+                  {contact.linkedin && (
+                    <a href={contact.linkedin} target="_blank" rel="noopener noreferrer">
+                      LinkedIn
+                    </a>
+                  )}
+                </div>
               </div>
-            )}
-          </section>
-          {recentStatusUpdates.length > 0 && (
-            <section className="kpbs-card">
-              <h2 className="kpbs-card__title">Recent Status Updates</h2>
-              <div className="kpbs-digest-jobs">
-                {recentStatusUpdates.map(({ job, record }) => (
-                  <div
-                    key={`${job.id}-${record.updatedAt}`}
-                    className="kpbs-digest-job"
-                  >
-                    <div className="kpbs-digest-job-main">
-                      <h3 className="kpbs-digest-job-title">{job.title}</h3>
-                      <p className="kpbs-digest-job-meta">{job.company}</p>
-                    </div>
-                    <div className="kpbs-digest-job-actions">
-                      <span className="kpbs-badge kpbs-badge--status kpbs-badge--status-neutral">
-                        {record.status}
-                      </span>
-                      <span className="kpbs-job-card__posted">
-                        {new Date(record.updatedAt).toLocaleDateString()}
-                      </span>
-                    </div>
-                  </div>
-                ))}
+              <button
+                type="button"
+                className="kpbs-button kpbs-button--ghost"
+                onClick={() =>
+                  onChange({
+                    contacts: workspace.contacts.filter(({ id }) => id !== contact.id),
+                  })
+                }
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="kpbs-contact-form">
+        <input
+          className="kpbs-input"
+          aria-label="Contact name"
+          placeholder="Name"
+          value={draftContact.name}
+          onChange={(event) => updateDraft({ name: event.target.value })}
+        />
+        <input
+          className="kpbs-input"
+          aria-label="Contact role"
+          placeholder="Role, e.g. Recruiter or Referral"
+          value={draftContact.role}
+          onChange={(event) => updateDraft({ role: event.target.value })}
+        />
+        <input
+          className="kpbs-input"
+          type="email"
+          aria-label="Contact email"
+          placeholder="Email"
+          value={draftContact.email}
+          onChange={(event) => updateDraft({ email: event.target.value })}
+        />
+        <input
+          className="kpbs-input"
+          aria-label="Contact LinkedIn profile"
+          placeholder="linkedin.com/in/…"
+          value={draftContact.linkedin}
+          onChange={(event) => updateDraft({ linkedin: event.target.value })}
+        />
+        <button
+          type="button"
+          className="kpbs-button kpbs-button--secondary"
+          onClick={handleAddContact}
+        >
+          Add contact
+        </button>
+      </div>
+      {contactIssues.length > 0 && (
+        <ul className="kpbs-query-errors">
+          {contactIssues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+      <h3 className="kpbs-digest-job-title">Attachments</h3>
+      {workspace.attachments.length > 0 && (
+        <ul className="kpbs-workspace-list">
+          {workspace.attachments.map((attachment) => (
+            <li key={attachment.id} className="kpbs-workspace-list__item">
+              <div>
+                <button
+                  type="button"
+                  className="kpbs-link-button"
+                  onClick={() => handleDownload(attachment)}
+                >
+                  {attachment.name}
+                </button>
+                <div className="kpbs-modal__meta">
+                  {formatFileSize(attachment.size)} · added{' '}
+                  {new Date(attachment.addedAt).toLocaleDateString()}
+                </div>
               </div>
-            </section>
-          )}
-        </>
+              <button
+                type="button"
+                className="kpbs-button kpbs-button--ghost"
+                onClick={() => handleRemoveAttachment(attachment)}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
       )}
-    </main>
+      <input
+        type="file"
+        multiple
+        aria-label="Attach files"
+        disabled={isUploading}
+        onChange={handleAttach}
+      />
+      {attachmentMessage && <p className="kpbs-toggle__hint">{attachmentMessage}</p>}
+    </div>
   )
 }
 
-const ProofPage = () => (
-  <main className="kpbs-page">
-    <h1 className="kpbs-page__title">Proof</h1>
-    <section className="kpbs-card kpbs-card--empty">
-      <h2 className="kpbs-card__title">Artifact collection coming next.</h2>
-      <p className="kpbs-card__body">
-        In the next step, you will attach artifacts that show how tracking
-        performs across job searches and applications.
+type JobRemindersProps = {
+  job: Job
+  reminders: Reminder[]
+  now: Date
+  onAdd: (kind: ReminderKind, dueAt: Date, note: string) => void
+  onComplete: (id: string) => void
+  onSnooze: (id: string, minutes: number) => void
+}
+
+const JobReminders = ({ job, reminders, now, onAdd, onComplete, onSnooze }: JobRemindersProps) => {
+  const [kind, setKind] = useState<ReminderKind>('follow-up')
+  const [dueValue, setDueValue] = useState(() =>
+    toDateTimeInputValue(suggestDueDate('follow-up', job, now)),
+  )
+  const [note, setNote] = useState('')
+  const dueAt = new Date(dueValue)
+  const isValidDue = dueValue !== '' && !Number.isNaN(dueAt.getTime())
+
+  const handleKindChange = (next: ReminderKind) => {
+    setKind(next)
+    setDueValue(toDateTimeInputValue(suggestDueDate(next, job, now)))
+  }
+
+  const handleAdd = () => {
+    if (!isValidDue) return
+    onAdd(kind, dueAt, note)
+    setNote('')
+  }
+
+  const deadlineEvent = deadlineToEvent(job)
+
+  return (
+    <div className="kpbs-modal__reminders">
+      <div className="kpbs-inline-row">
+        <h3 className="kpbs-digest-job-title">Reminders</h3>
+        {deadlineEvent && (
+          <button
+            type="button"
+            className="kpbs-button kpbs-button--ghost"
+            onClick={() =>
+              downloadCalendar([deadlineEvent], calendarFileName(job.title, 'deadline'))
+            }
+          >
+            Add deadline to calendar
+          </button>
+        )}
+      </div>
+      {reminders.length > 0 && (
+        <ul className="kpbs-reminder-list">
+          {reminders.map((reminder) => (
+            <ReminderRow
+              key={reminder.id}
+              reminder={reminder}
+              now={now}
+              onComplete={onComplete}
+              onSnooze={onSnooze}
+              onExport={(exported) => exportReminder(exported, job)}
+            />
+          ))}
+        </ul>
+      )}
+      <div className="kpbs-contact-form">
+        <select
+          className="kpbs-input kpbs-input--select"
+          aria-label="Reminder type"
+          value={kind}
+          onChange={(event) => handleKindChange(event.target.value as ReminderKind)}
+        >
+          {REMINDER_KINDS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <input
+          className="kpbs-input"
+          type="datetime-local"
+          aria-label="Due date and time"
+          value={dueValue}
+          onChange={(event) => setDueValue(event.target.value)}
+        />
+        <input
+          className="kpbs-input"
+          aria-label="Reminder note"
+          placeholder="Optional note"
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+        />
+        <button
+          type="button"
+          className="kpbs-button kpbs-button--secondary"
+          disabled={!isValidDue}
+          onClick={handleAdd}
+        >
+          Add reminder
+        </button>
+      </div>
+    </div>
+  )
+}
+
+type StatusTimelineProps = {
+  pipeline: Pipeline
+  events: StatusEvent[]
+  onChangeStatus: (stageId: string, note: string) => void
+}
+
+const StatusTimeline = ({ pipeline, events, onChangeStatus }: StatusTimelineProps) => {
+  const [nextStageId, setNextStageId] = useState('')
+  const [note, setNote] = useState('')
+  const spans = getStageSpans(events)
+  const currentSpan = spans[spans.length - 1]
+  const currentStage = findStage(pipeline, currentSpan?.event.status)
+  const nextStages = getNextStages(pipeline, currentStage.id)
+  const appliedDays = daysSinceApplied(events, pipeline)
+
+  const handleUpdate = () => {
+    if (!nextStageId) return
+    onChangeStatus(nextStageId, note)
+    setNextStageId('')
+    setNote('')
+  }
+
+  return (
+    <div className="kpbs-modal__timeline">
+      <h3 className="kpbs-digest-job-title">Application history</h3>
+      <p className="kpbs-modal__meta">
+        {currentStage.label}
+        {currentSpan && <> · {formatDays(currentSpan.days)} in this stage</>}
+        {appliedDays !== null && <> · Applied {formatDays(appliedDays)} ago</>}
       </p>
-    </section>
-  </main>
-)
+      {spans.length === 0 ? (
+        <p className="kpbs-toggle__hint">No stage changes recorded yet.</p>
+      ) : (
+        <ol className="kpbs-timeline">
+          {spans.map(({ event, days, current }, index) => {
+            const stage = findStage(pipeline, event.status)
+            return (
+              <li key={`${event.at}-${index}`} className="kpbs-timeline__item">
+                <div className="kpbs-timeline__row">
+                  <span className={`kpbs-badge kpbs-badge--status-${stage.tone}`}>
+                    {stage.label}
+                  </span>
+                  <time className="kpbs-timeline__date" dateTime={event.at}>
+                    {new Date(event.at).toLocaleString()}
+                  </time>
+                  <span className="kpbs-timeline__duration">
+                    {current ? `${formatDays(days)} so far` : formatDays(days)}
+                  </span>
+                </div>
+                {event.note && <p className="kpbs-timeline__note">{event.note}</p>}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+      {nextStages.length > 0 && (
+        <div className="kpbs-inline-row kpbs-timeline__form">
+          <select
+            className="kpbs-input kpbs-input--select kpbs-stage-picker"
+            aria-label="Next stage"
+            value={nextStageId}
+            onChange={(event) => setNextStageId(event.target.value)}
+          >
+            <option value="">Move to…</option>
+            {nextStages.map((stage) => (
+              <option key={stage.id} value={stage.id}>
+                {stage.label}
+              </option>
+            ))}
+          </select>
+          <input
+            className="kpbs-input"
+            aria-label="Note for this stage change"
+            placeholder="Optional note, e.g. OA link received"
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+          />
+          <button
+            type="button"
+            className="kpbs-button kpbs-button--secondary"
+            disabled={!nextStageId}
+            onClick={handleUpdate}
+          >
+            Update stage
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
 
 type JobModalProps = {
   job: Job | null
+  sources?: Job[]
+  highlightTokens?: Set<string>
+  preferences: Preferences
+  hasPreferences: boolean
+  pipeline: Pipeline
+  statusEvents: StatusEvent[]
+  workspace: JobWorkspace
+  reminders: Reminder[]
+  now: Date
+  onChangeStatus: (jobId: number, stageId: string, note: string) => void
+  onWorkspaceChange: (jobId: number, partial: Partial<JobWorkspace>) => void
+  onApply: (job: Job) => void
+  onAddReminder: (jobId: number, kind: ReminderKind, dueAt: Date, note: string) => void
+  onCompleteReminder: (id: string) => void
+  onSnoozeReminder: (id: string, minutes: number) => void
   onClose: () => void
 }
 
-const JobModal = ({ job, onClose }: JobModalProps) => {
+const JobModal = ({
+  job,
+  sources = [],
+  highlightTokens = NO_HIGHLIGHTS,
+  preferences,
+  hasPreferences,
+  pipeline,
+  statusEvents,
+  workspace,
+  reminders,
+  now,
+  onChangeStatus,
+  onWorkspaceChange,
+  onApply,
+  onAddReminder,
+  onCompleteReminder,
+  onSnoozeReminder,
+  onClose,
+}: JobModalProps) => {
   if (!job) return null
+  const otherListings = sources.filter((listing) => listing.id !== job.id)
+  const eligibilityIssues = findEligibilityIssues(job, preferences.candidateProfile)
 
   return (
     <div className="kpbs-modal" role="dialog" aria-modal="true">
@@ -1126,17 +3645,82 @@ const JobModal = ({ job, onClose }: JobModalProps) => {
         </header>
         <section className="kpbs-modal__body">
           <p className="kpbs-modal__meta">
-            Experience: {job.experience} · Salary: {job.salaryRange} · Source: {job.source} ·{' '}
-            {formatPosted(job.postedDaysAgo)}
+            Experience: {job.experience} · Salary: {formatSalaryLabel(job)} · Source: {getSourceDisplayName(job.source)} ·{' '}
+            {formatPosted(job.postedAt)}
+            {job.deadline && <> · {formatDeadline(job)}</>}
+          </p>
+          <p className="kpbs-modal__description">
+            <HighlightedText text={job.description} tokens={highlightTokens} />
           </p>
-          <p className="kpbs-modal__description">{job.description}</p>
           <div className="kpbs-modal__skills">
             {job.skills.map((skill) => (
-              <span key={skill} className="kpbs-pill kpbs-pill--skill">
+              <span
+                key={skill}
+                className={`kpbs-pill kpbs-pill--skill${
+                  job.requiredSkills?.includes(skill) ? ' kpbs-pill--required' : ''
+                }`}
+                title={job.requiredSkills?.includes(skill) ? 'Required' : undefined}
+              >
                 {skill}
+                {job.niceToHaveSkills?.includes(skill) && ' (nice to have)'}
               </span>
             ))}
           </div>
+          {job.eligibility && (
+            <div className="kpbs-modal__eligibility">
+              <h3 className="kpbs-digest-job-title">Eligibility</h3>
+              <p className="kpbs-modal__meta">{describeEligibility(job.eligibility).join(' · ')}</p>
+              {eligibilityIssues.length > 0 && (
+                <p className="kpbs-modal__meta kpbs-modal__ineligible">
+                  You may not be eligible: {eligibilityIssues.join('; ')}.
+                </p>
+              )}
+            </div>
+          )}
+          <div className="kpbs-modal__breakdown">
+            <h3 className="kpbs-digest-job-title">
+              Why this match · {computeMatchScore(job, preferences)}%
+            </h3>
+            {!hasPreferences && (
+              <p className="kpbs-toggle__hint">
+                Set your preferences to see which criteria this job meets.
+              </p>
+            )}
+            <MatchBreakdownView breakdown={computeMatchBreakdown(job, preferences)} />
+          </div>
+          <StatusTimeline
+            key={job.id}
+            pipeline={pipeline}
+            events={statusEvents}
+            onChangeStatus={(stageId, note) => onChangeStatus(job.id, stageId, note)}
+          />
+          <JobReminders
+            key={`reminders-${job.id}`}
+            job={job}
+            reminders={reminders}
+            now={now}
+            onAdd={(kind, dueAt, note) => onAddReminder(job.id, kind, dueAt, note)}
+            onComplete={onCompleteReminder}
+            onSnooze={onSnoozeReminder}
+          />
+          <JobWorkspacePanel
+            key={`workspace-${job.id}`}
+            workspace={workspace}
+            onChange={(partial) => onWorkspaceChange(job.id, partial)}
+          />
+          {otherListings.length > 0 && (
+            <p className="kpbs-modal__meta kpbs-modal__listings">
+              Also listed on:{' '}
+              {otherListings.map((listing, index) => (
+                <span key={listing.id}>
+                  {index > 0 && ', '}
+                  <a href={listing.applyUrl} target="_blank" rel="noopener noreferrer">
+                    {getSourceDisplayName(listing.source)}
+                  </a>
+                </span>
+              ))}
+            </p>
+          )}
         </section>
         <footer className="kpbs-modal__footer">
           <button
@@ -1149,9 +3733,8 @@ const JobModal = ({ job, onClose }: JobModalProps) => {
           <button
             type="button"
             className="kpbs-button kpbs-button--primary"
-            onClick={() =>
-              window.open(job.applyUrl, '_blank', 'noopener,noreferrer')
-            }
+            onClick={() => onApply(job)}
+            disabled={isJobClosed(job)}
           >
             Apply
           </button>
@@ -1161,13 +3744,41 @@ const JobModal = ({ job, onClose }: JobModalProps) => {
   )
 }
 
+const REMINDER_CHECK_INTERVAL_MS = 30 * 1000
+
 function App() {
   const [menuOpen, setMenuOpen] = useState(false)
   const [savedJobIds, setSavedJobIds] = useState<number[]>([])
   const [selectedJob, setSelectedJob] = useState<Job | null>(null)
+  const [selectedJobHighlights, setSelectedJobHighlights] = useState<Set<string>>()
   const [preferences, setPreferences] = useState<Preferences>(defaultPreferences)
-  const [jobStatuses, setJobStatuses] = useState<Record<number, JobStatusRecord>>({})
+  const [statusLog, setStatusLog] = useState<StatusLog>(loadStatusLog)
   const [toastMessage, setToastMessage] = useState<string | null>(null)
+  const [importedRecords, setImportedRecords] = useState<RawJobRecord[]>(loadImportedRecords)
+  const [pipeline, setPipeline] = useState<Pipeline>(loadPipeline)
+  const [workspaces, setWorkspaces] = useState<WorkspaceStore>(loadWorkspaces)
+  const [reminders, setReminders] = useState<Reminder[]>(loadReminders)
+  const [now, setNow] = useState(() => new Date())
+  const [notificationPermission, setNotificationPermission] =
+    useState<NotificationPermissionState>(() =>
+      typeof Notification === 'undefined' ? 'unsupported' : Notification.permission,
+    )
+
+  const { jobs, quarantined } = useMemo(() => {
+    const bundled = validateJobs(
+      JOBS.map((job) => resolveBundledJob(job)),
+      'bundled',
+    )
+    const imported = validateJobs(
+      importedRecords,
+      'imported',
+      new Set(bundled.jobs.map((job) => job.id)),
+    )
+    return {
+      jobs: [...bundled.jobs, ...imported.jobs],
+      quarantined: [...bundled.quarantined, ...imported.quarantined],
+    }
+  }, [importedRecords])
 
   useEffect(() => {
     const raw = window.localStorage.getItem('jnt-saved-jobs')
@@ -1196,6 +3807,14 @@ function App() {
           typeof parsed.minMatchScore === 'number'
             ? parsed.minMatchScore
             : prev.minMatchScore,
+        scoringWeights: { ...prev.scoringWeights, ...parsed.scoringWeights },
+        exclusions: {
+          ...prev.exclusions,
+          ...parsed.exclusions,
+          excludedLocations: parseLocationExclusions(parsed.exclusions?.excludedLocations),
+        },
+        candidateProfile: { ...prev.candidateProfile, ...parsed.candidateProfile },
+        experienceLevel: parseExperiencePreference(parsed.experienceLevel),
       }))
     } catch {
       // ignore parse errors
@@ -1210,22 +3829,40 @@ function App() {
   }, [preferences])
 
   useEffect(() => {
-    const raw = window.localStorage.getItem('jobTrackerStatus')
-    if (!raw) return
-    try {
-      const parsed = JSON.parse(raw) as Record<string, JobStatusRecord>
-      const normalized: Record<number, JobStatusRecord> = {}
-      Object.entries(parsed).forEach(([id, record]) => {
-        const numericId = Number(id)
-        if (!Number.isNaN(numericId) && record?.status) {
-          normalized[numericId] = record
-        }
+    const intervalId = window.setInterval(() => {
+      const current = new Date()
+      setNow(current)
+      const due = getRemindersToNotify(reminders, current)
+      if (due.length === 0) return
+      const jobsById = new Map(jobs.map((job) => [job.id, job] as const))
+      due.forEach((reminder) => {
+        const job = jobsById.get(reminder.jobId)
+        if (notificationPermission !== 'granted') return
+        showSystemNotification(
+          `${getReminderLabel(reminder.kind)}${job ? `: ${job.title}` : ''}`,
+          {
+            body: [job?.company, reminder.note].filter(Boolean).join(' — '),
+            tag: reminder.id,
+          },
+        )
       })
-      setJobStatuses(normalized)
-    } catch {
-      // ignore parse errors
-    }
-  }, [])
+      setToastMessage(
+        due.length === 1
+          ? `Reminder due: ${getReminderLabel(due[0]!.kind)}`
+          : `${due.length} reminders are due`,
+      )
+      setReminders((prev) => {
+        const next = prev.map((reminder) =>
+          due.some(({ id }) => id === reminder.id)
+            ? { ...reminder, notifiedAt: current.toISOString() }
+            : reminder,
+        )
+        saveReminders(next)
+        return next
+      })
+    }, REMINDER_CHECK_INTERVAL_MS)
+    return () => window.clearInterval(intervalId)
+  }, [reminders, jobs, notificationPermission])
 
   useEffect(() => {
     if (!toastMessage) return
@@ -1244,26 +3881,125 @@ function App() {
     })
   }
 
-  const handleChangeStatus = (jobId: number, status: JobStatus) => {
-    setJobStatuses((prev) => {
-      const next: Record<number, JobStatusRecord> = {
-        ...prev,
-        [jobId]: {
-          status,
-          updatedAt: new Date().toISOString(),
-        },
-      }
-      const serializable: Record<string, JobStatusRecord> = {}
-      Object.entries(next).forEach(([id, record]) => {
-        serializable[id] = record
-      })
-      window.localStorage.setItem(
-        'jobTrackerStatus',
-        JSON.stringify(serializable),
+  const updateReminders = (update: (prev: Reminder[]) => Reminder[]) => {
+    setReminders((prev) => {
+      const next = update(prev)
+      saveReminders(next)
+      return next
+    })
+  }
+
+  const handleAddReminder = (jobId: number, kind: ReminderKind, dueAt: Date, note: string) => {
+    updateReminders((prev) => [...prev, createReminder(jobId, kind, dueAt, note)])
+    setToastMessage(`Reminder set for ${dueAt.toLocaleString()}`)
+  }
+
+  const handleCompleteReminder = (id: string) => {
+    updateReminders((prev) => updateReminder(prev, id, (reminder) => completeReminder(reminder)))
+  }
+
+  const handleSnoozeReminder = (id: string, minutes: number) => {
+    updateReminders((prev) =>
+      updateReminder(prev, id, (reminder) => snoozeReminder(reminder, minutes)),
+    )
+    const option = SNOOZE_OPTIONS.find((snooze) => snooze.minutes === minutes)
+    if (option) setToastMessage(`Snoozed for ${option.label}`)
+  }
+
+  const handleApplyJob = (job: Job) => {
+    window.open(job.applyUrl, '_blank', 'noopener,noreferrer')
+    if (hasOpenReminder(reminders, job.id, 'follow-up')) return
+    const dueAt = suggestDueDate('follow-up', job)
+    updateReminders((prev) => [...prev, createReminder(job.id, 'follow-up', dueAt)])
+    setToastMessage(`Follow-up reminder set for ${dueAt.toLocaleDateString()}`)
+  }
+
+  const handleEnableNotifications = async () => {
+    if (typeof Notification === 'undefined') return
+    setNotificationPermission(await Notification.requestPermission())
+  }
+
+  const handleWorkspaceChange = (jobId: number, partial: Partial<JobWorkspace>) => {
+    setWorkspaces((prev) => {
+      const next = updateWorkspace(prev, jobId, partial)
+      saveWorkspaces(next)
+      return next
+    })
+  }
+
+  const handlePipelineChange = (next: Pipeline) => {
+    setPipeline(next)
+    savePipeline(next)
+  }
+
+  const clusters = useMemo(() => clusterDuplicateJobs(jobs), [jobs])
+  const clusterByJobId = useMemo(() => indexClusters(clusters), [clusters])
+  const listedJobs = useMemo(() => clusters.map((cluster) => cluster.primary), [clusters])
+  const jobStatuses = useMemo(() => getLatestStatuses(statusLog), [statusLog])
+  const sharedJobStatuses = useMemo(
+    () => shareStatusesAcrossClusters(jobStatuses, clusterByJobId),
+    [jobStatuses, clusterByJobId],
+  )
+  const sharedSavedJobIds = useMemo(
+    () =>
+      savedJobIds.flatMap(
+        (id) => clusterByJobId.get(id)?.members.map((member) => member.id) ?? [id],
+      ),
+    [savedJobIds, clusterByJobId],
+  )
+
+  const selectedJobEvents = selectedJob
+    ? mergeStatusEvents(
+        (clusterByJobId.get(selectedJob.id)?.members ?? [selectedJob]).map(
+          (member) => statusLog[member.id] ?? [],
+        ),
+      )
+    : []
+
+  const calendarEvents = useMemo(() => {
+    const trackedJobIds = new Set(
+      listedJobs
+        .filter((job) => sharedSavedJobIds.includes(job.id) || sharedJobStatuses[job.id])
+        .map((job) => job.id),
+    )
+    return collectCalendarEvents(jobs, trackedJobIds, reminders)
+  }, [jobs, listedJobs, sharedSavedJobIds, sharedJobStatuses, reminders])
+
+  const selectedJobReminders = selectedJob
+    ? reminders.filter(
+        (reminder) =>
+          isOpenReminder(reminder) &&
+          clusterByJobId.get(reminder.jobId) === clusterByJobId.get(selectedJob.id),
       )
+    : []
+
+  const handleChangeStatus = (jobId: number, stageId: string, note?: string) => {
+    const from = findStage(pipeline, sharedJobStatuses[jobId]?.status)
+    const to = findStage(pipeline, stageId)
+    if (!canTransition(pipeline, from.id, to.id)) {
+      setToastMessage(`Can't move from ${from.label} to ${to.label}`)
+      return
+    }
+    const event: StatusEvent = { status: to.id, at: new Date().toISOString() }
+    if (note?.trim()) event.note = note.trim()
+    setStatusLog((prev) => {
+      const next = appendStatusEvent(prev, jobId, event)
+      saveStatusLog(next)
       return next
     })
-    setToastMessage(`Status updated: ${status}`)
+    setToastMessage(`Moved to ${to.label}`)
+  }
+
+  const handleImportJobs = (records: RawJobRecord[]) => {
+    const next = mergeById(importedRecords, records)
+    saveImportedRecords(next)
+    setImportedRecords(next)
+    setToastMessage(`Imported ${records.length} records`)
+  }
+
+  const handleClearImportedJobs = () => {
+    setImportedRecords([])
+    saveImportedRecords([])
   }
 
   const hasPreferences = useMemo(() => {
@@ -1272,12 +4008,21 @@ function App() {
         preferences.skills.trim() ||
         preferences.preferredLocations.length > 0 ||
         preferences.preferredModes.length > 0 ||
-        preferences.experienceLevel,
+        preferences.experienceLevel !== null ||
+        preferences.expectedSalaryMin !== null ||
+        preferences.expectedSalaryMax !== null,
     )
   }, [preferences])
 
   const closeMenu = () => setMenuOpen(false)
 
+  const overdueReminderCount = groupReminders(reminders, now).overdue.length
+
+  const handleViewJob = (job: Job, highlightTokens?: Set<string>) => {
+    setSelectedJob(job)
+    setSelectedJobHighlights(highlightTokens)
+  }
+
   return (
     <div className="kpbs-app">
       <header className="kpbs-topbar">
@@ -1306,6 +4051,14 @@ function App() {
             onClick={closeMenu}
           >
             Dashboard
+            {overdueReminderCount > 0 && (
+              <span
+                className="kpbs-topbar__count"
+                aria-label={`${overdueReminderCount} overdue reminders`}
+              >
+                {overdueReminderCount}
+              </span>
+            )}
           </NavLink>
           <NavLink
             to="/saved"
@@ -1316,6 +4069,15 @@ function App() {
           >
             Saved
           </NavLink>
+          <NavLink
+            to="/pipeline"
+            className={({ isActive }) =>
+              `kpbs-topbar__link ${isActive ? 'kpbs-topbar__link--active' : ''}`
+            }
+            onClick={closeMenu}
+          >
+            Pipeline
+          </NavLink>
           <NavLink
             to="/digest"
             className={({ isActive }) =>
@@ -1352,14 +4114,25 @@ function App() {
           path="/dashboard"
           element={
             <JobsDashboard
-              jobs={JOBS}
-              savedJobIds={savedJobIds}
+              jobs={listedJobs}
+              clusterByJobId={clusterByJobId}
+              quarantinedCount={quarantined.length}
+              savedJobIds={sharedSavedJobIds}
               preferences={preferences}
               hasPreferences={hasPreferences}
-              jobStatuses={jobStatuses}
+              jobStatuses={sharedJobStatuses}
+              pipeline={pipeline}
+              workspaces={workspaces}
+              reminders={reminders}
+              now={now}
+              notificationPermission={notificationPermission}
               onSaveJob={handleSaveJob}
-              onViewJob={setSelectedJob}
+              onViewJob={handleViewJob}
+              onApplyJob={handleApplyJob}
               onChangeStatus={handleChangeStatus}
+              onEnableNotifications={handleEnableNotifications}
+              onCompleteReminder={handleCompleteReminder}
+              onSnoozeReminder={handleSnoozeReminder}
             />
           }
         />
@@ -1367,9 +4140,17 @@ function App() {
           path="/settings"
           element={
             <SettingsPage
-              jobsCount={JOBS.length}
+              jobs={jobs}
+              listedJobs={listedJobs}
+              importedRecords={importedRecords}
+              quarantined={quarantined}
               preferences={preferences}
+              pipeline={pipeline}
+              calendarEvents={calendarEvents}
               onChange={setPreferences}
+              onPipelineChange={handlePipelineChange}
+              onImportJobs={handleImportJobs}
+              onClearImportedJobs={handleClearImportedJobs}
             />
           }
         />
@@ -1377,11 +4158,28 @@ function App() {
           path="/saved"
           element={
             <SavedPage
-              savedJobIds={savedJobIds}
+              jobs={listedJobs}
+              clusterByJobId={clusterByJobId}
+              savedJobIds={sharedSavedJobIds}
               preferences={preferences}
-              jobStatuses={jobStatuses}
+              jobStatuses={sharedJobStatuses}
+              pipeline={pipeline}
+              onChangeStatus={handleChangeStatus}
+              onViewJob={handleViewJob}
+              onApplyJob={handleApplyJob}
+            />
+          }
+        />
+        <Route
+          path="/pipeline"
+          element={
+            <PipelinePage
+              jobs={listedJobs}
+              savedJobIds={sharedSavedJobIds}
+              jobStatuses={sharedJobStatuses}
+              pipeline={pipeline}
               onChangeStatus={handleChangeStatus}
-              onViewJob={setSelectedJob}
+              onViewJob={handleViewJob}
             />
           }
         />
@@ -1389,15 +4187,35 @@ function App() {
           path="/digest"
           element={
             <DigestPage
+              jobs={listedJobs}
               preferences={preferences}
               hasPreferences={hasPreferences}
-              jobStatuses={jobStatuses}
+              jobStatuses={sharedJobStatuses}
+              pipeline={pipeline}
             />
           }
         />
         <Route path="/proof" element={<ProofPage />} />
       </Routes>
-      <JobModal job={selectedJob} onClose={() => setSelectedJob(null)} />
+      <JobModal
+        job={selectedJob}
+        highlightTokens={selectedJobHighlights}
+        preferences={preferences}
+        hasPreferences={hasPreferences}
+        sources={selectedJob ? clusterByJobId.get(selectedJob.id)?.members : undefined}
+        pipeline={pipeline}
+        statusEvents={selectedJobEvents}
+        workspace={selectedJob ? getWorkspace(workspaces, selectedJob.id) : EMPTY_WORKSPACE}
+        reminders={selectedJobReminders}
+        now={now}
+        onChangeStatus={handleChangeStatus}
+        onWorkspaceChange={handleWorkspaceChange}
+        onApply={handleApplyJob}
+        onAddReminder={handleAddReminder}
+        onCompleteReminder={handleCompleteReminder}
+        onSnoozeReminder={handleSnoozeReminder}
+        onClose={() => setSelectedJob(null)}
+      />
       {toastMessage && (
         <div className="kpbs-toast" role="status" aria-live="polite">
           {toastMessage}
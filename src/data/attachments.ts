@@ -0,0 +1,50 @@
+const DB_NAME = 'jobTrackerAttachments'
+
+const STORE_NAME = 'files'
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed.'))
+  })
+
+const openAttachmentDb = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('This browser cannot store attachments.'))
+  }
+  const request = indexedDB.open(DB_NAME, 1)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME)
+  }
+  return requestToPromise(request)
+}
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openAttachmentDb()
+  try {
+    return await requestToPromise(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)))
+  } finally {
+    db.close()
+  }
+}
+
+export const putAttachment = async (id: string, file: Blob): Promise<void> => {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error('Attachments are limited to 10 MB.')
+  }
+  await withStore('readwrite', (store) => store.put(file, id))
+}
+
+export const getAttachment = async (id: string): Promise<Blob | null> => {
+  const blob = await withStore<Blob | undefined>('readonly', (store) => store.get(id))
+  return blob ?? null
+}
+
+export const deleteAttachment = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id))
+}
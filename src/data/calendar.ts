@@ -0,0 +1,179 @@
+import type { Job } from './jobs'
+import { parseJobDate, toDateKey } from './recency'
+import { getReminderLabel, type Reminder, type ReminderKind } from './reminders'
+
+export type CalendarEvent = {
+  uid: string
+  summary: string
+  description: string
+  start: Date
+  end: Date
+  allDay: boolean
+  url?: string
+  busy: boolean
+  alarmMinutesBefore: number | null
+  sequence: number
+  lastModified: Date | null
+  cancelled: boolean
+}
+
+const PRODUCT_ID = '-//Job Notification Tracker//Calendar Export//EN'
+
+const UID_DOMAIN = 'job-notification-tracker'
+
+const MAX_LINE_OCTETS = 75
+
+const REMINDER_DURATIONS: Record<ReminderKind, number> = {
+  'follow-up': 30,
+  interview: 60,
+  deadline: 30,
+}
+
+const INTERVIEW_ALARM_MINUTES = 30
+
+const encoder = new TextEncoder()
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+
+const foldLine = (line: string): string[] => {
+  const lines: string[] = []
+  let current = ''
+  let octets = 0
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (octets + size > limit) {
+      lines.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  lines.push(current)
+  return lines.map((part, index) => (index === 0 ? part : ` ${part}`))
+}
+
+const formatUtc = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+const formatDate = (date: Date): string => toDateKey(date).replace(/-/g, '')
+
+const jobLabel = (job: Job | undefined): string => (job ? `${job.title} · ${job.company}` : 'Job')
+
+export const reminderToEvent = (reminder: Reminder, job: Job | undefined): CalendarEvent => {
+  const start = new Date(reminder.dueAt)
+  const modified = Date.parse(reminder.updatedAt ?? reminder.createdAt)
+  const isInterview = reminder.kind === 'interview'
+  const cancelled = Boolean(reminder.completedAt)
+  return {
+    uid: `reminder-${reminder.id}@${UID_DOMAIN}`,
+    summary: `${getReminderLabel(reminder.kind)}: ${jobLabel(job)}`,
+    description: [reminder.note, job?.applyUrl].filter(Boolean).join('\n'),
+    start,
+    end: new Date(start.getTime() + REMINDER_DURATIONS[reminder.kind] * 60 * 1000),
+    allDay: false,
+    url: job?.applyUrl,
+    busy: isInterview && !cancelled,
+    alarmMinutesBefore: cancelled ? null : isInterview ? INTERVIEW_ALARM_MINUTES : 0,
+    sequence: reminder.revision ?? 0,
+    lastModified: Number.isNaN(modified) ? null : new Date(modified),
+    cancelled,
+  }
+}
+
+export const deadlineToEvent = (job: Job): CalendarEvent | null => {
+  const deadline = job.deadline ? parseJobDate(job.deadline) : null
+  if (!deadline) return null
+  return {
+    uid: `deadline-${job.id}@${UID_DOMAIN}`,
+    summary: `Application deadline: ${jobLabel(job)}`,
+    description: `Apply at ${job.applyUrl}`,
+    start: deadline,
+    end: new Date(deadline.getFullYear(), deadline.getMonth(), deadline.getDate() + 1),
+    allDay: true,
+    url: job.applyUrl,
+    busy: false,
+    alarmMinutesBefore: null,
+    sequence: 0,
+    lastModified: null,
+    cancelled: false,
+  }
+}
+
+const eventLines = (event: CalendarEvent, stamp: Date): string[] => [
+  'BEGIN:VEVENT',
+  `UID:${event.uid}`,
+  `DTSTAMP:${formatUtc(stamp)}`,
+  `SEQUENCE:${event.sequence}`,
+  ...(event.lastModified ? [`LAST-MODIFIED:${formatUtc(event.lastModified)}`] : []),
+  event.allDay
+    ? `DTSTART;VALUE=DATE:${formatDate(event.start)}`
+    : `DTSTART:${formatUtc(event.start)}`,
+  event.allDay ? `DTEND;VALUE=DATE:${formatDate(event.end)}` : `DTEND:${formatUtc(event.end)}`,
+  `SUMMARY:${escapeText(event.summary)}`,
+  ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+  ...(event.url ? [`URL:${event.url}`] : []),
+  `TRANSP:${event.busy ? 'OPAQUE' : 'TRANSPARENT'}`,
+  `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+  ...(event.alarmMinutesBefore !== null
+    ? [
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(event.summary)}`,
+        event.alarmMinutesBefore > 0 ? `TRIGGER:-PT${event.alarmMinutesBefore}M` : 'TRIGGER:PT0M',
+        'END:VALARM',
+      ]
+    : []),
+  'END:VEVENT',
+]
+
+export const buildCalendar = (
+  events: CalendarEvent[],
+  name = 'Job applications',
+  now: Date = new Date(),
+): string =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap((event) => eventLines(event, now)),
+    'END:VCALENDAR',
+  ]
+    .flatMap(foldLine)
+    .map((line) => `${line}\r\n`)
+    .join('')
+
+export const collectCalendarEvents = (
+  jobs: Job[],
+  trackedJobIds: Set<number>,
+  reminders: Reminder[],
+): CalendarEvent[] => {
+  const jobsById = new Map(jobs.map((job) => [job.id, job] as const))
+  const deadlines = jobs
+    .filter((job) => trackedJobIds.has(job.id))
+    .map(deadlineToEvent)
+    .filter((event): event is CalendarEvent => event !== null)
+  const reminderEvents = reminders.map((reminder) =>
+    reminderToEvent(reminder, jobsById.get(reminder.jobId)),
+  )
+  return [...deadlines, ...reminderEvents].sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+export const calendarFileName = (...parts: string[]): string => {
+  const slug = parts
+    .join(' ')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+  return `${slug || 'calendar'}.ics`
+}
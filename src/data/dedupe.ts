@@ -0,0 +1,96 @@
+import type { Job } from './jobs'
+import { postedTimestamp } from './recency'
+
+export type JobCluster = {
+  primary: Job
+  members: Job[]
+}
+
+const COMPANY_SUFFIXES = new Set([
+  'pvt',
+  'private',
+  'ltd',
+  'limited',
+  'inc',
+  'llp',
+  'corp',
+  'corporation',
+  'technologies',
+  'india',
+])
+
+const TITLE_SIMILARITY_THRESHOLD = 0.75
+
+const DESCRIPTION_SIMILARITY_THRESHOLD = 0.5
+
+const tokenize = (value: string): string[] =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9+#.\s]/g, ' ')
+    .split(/\s+/)
+    .map((token) => token.replace(/^\.+|\.+$/g, ''))
+    .filter(Boolean)
+
+export const normalizeCompany = (company: string): string =>
+  tokenize(company)
+    .filter((token) => !COMPANY_SUFFIXES.has(token))
+    .join(' ')
+
+const normalizeCity = (location: string): string =>
+  tokenize(location.split(',')[0] ?? '').join(' ')
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 1
+  let shared = 0
+  a.forEach((token) => {
+    if (b.has(token)) shared += 1
+  })
+  return shared / (a.size + b.size - shared)
+}
+
+const isLikelyDuplicate = (a: Job, b: Job): boolean => {
+  if (normalizeCompany(a.company) !== normalizeCompany(b.company)) return false
+  if (normalizeCity(a.location) !== normalizeCity(b.location)) return false
+  const titleSimilarity = jaccard(new Set(tokenize(a.title)), new Set(tokenize(b.title)))
+  if (titleSimilarity < TITLE_SIMILARITY_THRESHOLD) return false
+  const descriptionSimilarity = jaccard(
+    new Set(tokenize(a.description)),
+    new Set(tokenize(b.description)),
+  )
+  return descriptionSimilarity >= DESCRIPTION_SIMILARITY_THRESHOLD
+}
+
+const pickPrimary = (members: Job[]): Job =>
+  [...members].sort(
+    (a, b) => postedTimestamp(b.postedAt) - postedTimestamp(a.postedAt) || a.id - b.id,
+  )[0]!
+
+export const clusterDuplicateJobs = (jobs: Job[]): JobCluster[] => {
+  const byCompany = new Map<string, Job[][]>()
+
+  jobs.forEach((job) => {
+    const key = normalizeCompany(job.company)
+    const groups = byCompany.get(key) ?? []
+    const group = groups.find((members) =>
+      members.some((member) => isLikelyDuplicate(member, job)),
+    )
+    if (group) {
+      group.push(job)
+    } else {
+      groups.push([job])
+    }
+    byCompany.set(key, groups)
+  })
+
+  return Array.from(byCompany.values())
+    .flat()
+    .map((members) => ({ primary: pickPrimary(members), members }))
+}
+
+export const indexClusters = (clusters: JobCluster[]): Map<number, JobCluster> => {
+  const index = new Map<number, JobCluster>()
+  clusters.forEach((cluster) => {
+    cluster.members.forEach((member) => index.set(member.id, cluster))
+  })
+  return index
+}
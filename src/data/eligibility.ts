@@ -0,0 +1,92 @@
+import type { Job, JobEligibility } from './jobs'
+
+export type CandidateProfile = {
+  graduationYear: number | null
+  degree: string
+  branch: string
+  cgpa: number | null
+  activeBacklogs: number | null
+  maxBondMonths: number | null
+}
+
+export const defaultCandidateProfile: CandidateProfile = {
+  graduationYear: null,
+  degree: '',
+  branch: '',
+  cgpa: null,
+  activeBacklogs: null,
+  maxBondMonths: null,
+}
+
+const credentialKey = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+const listIncludes = (options: string[], value: string): boolean =>
+  options.some((option) => credentialKey(option) === credentialKey(value))
+
+export const hasCandidateProfile = (profile: CandidateProfile): boolean =>
+  Boolean(
+    profile.graduationYear !== null ||
+      profile.degree.trim() ||
+      profile.branch.trim() ||
+      profile.cgpa !== null ||
+      profile.activeBacklogs !== null ||
+      profile.maxBondMonths !== null,
+  )
+
+export const findEligibilityIssues = (job: Job, profile: CandidateProfile): string[] => {
+  const rules = job.eligibility
+  if (!rules) return []
+  const issues: string[] = []
+  if (
+    rules.graduationYears?.length &&
+    profile.graduationYear !== null &&
+    !rules.graduationYears.includes(profile.graduationYear)
+  ) {
+    issues.push(`Open to ${rules.graduationYears.join('/')} graduates`)
+  }
+  if (rules.degrees?.length && profile.degree.trim() && !listIncludes(rules.degrees, profile.degree)) {
+    issues.push(`Requires ${rules.degrees.join(', ')}`)
+  }
+  if (rules.branches?.length && profile.branch.trim() && !listIncludes(rules.branches, profile.branch)) {
+    issues.push(`Open to ${rules.branches.join(', ')} branches`)
+  }
+  if (rules.minCgpa !== undefined && profile.cgpa !== null && profile.cgpa < rules.minCgpa) {
+    issues.push(`Minimum CGPA ${rules.minCgpa}`)
+  }
+  if (
+    rules.maxBacklogs !== undefined &&
+    profile.activeBacklogs !== null &&
+    profile.activeBacklogs > rules.maxBacklogs
+  ) {
+    issues.push(
+      rules.maxBacklogs === 0
+        ? 'No active backlogs allowed'
+        : `At most ${rules.maxBacklogs} active backlogs`,
+    )
+  }
+  if (
+    rules.bondMonths !== undefined &&
+    profile.maxBondMonths !== null &&
+    rules.bondMonths > profile.maxBondMonths
+  ) {
+    issues.push(`${rules.bondMonths}-month service bond`)
+  }
+  return issues
+}
+
+export const describeEligibility = (rules: JobEligibility): string[] => {
+  const lines: string[] = []
+  if (rules.graduationYears?.length) lines.push(`Batch: ${rules.graduationYears.join(', ')}`)
+  if (rules.degrees?.length) lines.push(`Degree: ${rules.degrees.join(', ')}`)
+  if (rules.branches?.length) lines.push(`Branch: ${rules.branches.join(', ')}`)
+  if (rules.minCgpa !== undefined) lines.push(`CGPA: ${rules.minCgpa}+`)
+  if (rules.maxBacklogs !== undefined) {
+    lines.push(
+      rules.maxBacklogs === 0 ? 'No active backlogs' : `Up to ${rules.maxBacklogs} active backlogs`,
+    )
+  }
+  if (rules.bondMonths !== undefined) {
+    lines.push(rules.bondMonths === 0 ? 'No service bond' : `Bond: ${rules.bondMonths} months`)
+  }
+  return lines
+}
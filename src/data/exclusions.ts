@@ -0,0 +1,90 @@
+import { normalizeCompany } from './dedupe'
+import { JOB_MODES, type Job, type JobMode } from './jobs'
+
+export type ExclusionAction = 'hide' | 'penalize'
+
+export type LocationExclusion = {
+  location: string
+  modes: JobMode[]
+}
+
+export type ExclusionRules = {
+  blockedCompanies: string
+  excludedKeywords: string
+  excludedLocations: LocationExclusion[]
+  excludedModes: JobMode[]
+  action: ExclusionAction
+  penalty: number
+}
+
+export const defaultExclusionRules: ExclusionRules = {
+  blockedCompanies: '',
+  excludedKeywords: '',
+  excludedLocations: [],
+  excludedModes: [],
+  action: 'hide',
+  penalty: 30,
+}
+
+const splitList = (value: string): string[] =>
+  value
+    .split(',')
+    .map((token) => token.trim())
+    .filter(Boolean)
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const containsPhrase = (text: string, phrase: string): boolean =>
+  new RegExp(`(^|[^a-z0-9])${escapeRegExp(phrase.toLowerCase())}($|[^a-z0-9])`).test(
+    text.toLowerCase(),
+  )
+
+export const parseLocationExclusions = (value: unknown): LocationExclusion[] =>
+  Array.isArray(value)
+    ? value.flatMap((entry): LocationExclusion[] => {
+        if (typeof entry === 'string') return [{ location: entry, modes: [] }]
+        if (typeof entry !== 'object' || entry === null) return []
+        const { location, modes } = entry as Partial<LocationExclusion>
+        if (typeof location !== 'string') return []
+        return [
+          {
+            location,
+            modes: Array.isArray(modes) ? modes.filter((mode) => JOB_MODES.includes(mode)) : [],
+          },
+        ]
+      })
+    : []
+
+export const describeLocationExclusion = ({ location, modes }: LocationExclusion): string =>
+  modes.length > 0 ? `${modes.join('/')} in ${location}` : location
+
+export const hasExclusionRules = (rules: ExclusionRules): boolean =>
+  Boolean(
+    rules.blockedCompanies.trim() ||
+      rules.excludedKeywords.trim() ||
+      rules.excludedLocations.length > 0 ||
+      rules.excludedModes.length > 0,
+  )
+
+export const findExclusionMatches = (job: Job, rules: ExclusionRules): string[] => {
+  const matches: string[] = []
+  const company = normalizeCompany(job.company)
+  if (splitList(rules.blockedCompanies).some((blocked) => normalizeCompany(blocked) === company)) {
+    matches.push(`Company: ${job.company}`)
+  }
+  splitList(rules.excludedKeywords).forEach((keyword) => {
+    if (containsPhrase(job.title, keyword) || containsPhrase(job.description, keyword)) {
+      matches.push(`Keyword: ${keyword}`)
+    }
+  })
+  rules.excludedLocations.forEach((rule) => {
+    const modeMatches = rule.modes.length === 0 || rule.modes.includes(job.mode)
+    if (rule.location === job.location && modeMatches) {
+      matches.push(`Location: ${describeLocationExclusion(rule)}`)
+    }
+  })
+  if (rules.excludedModes.includes(job.mode)) {
+    matches.push(`Mode: ${job.mode}`)
+  }
+  return matches
+}
@@ -0,0 +1,54 @@
+import { JOB_EXPERIENCES, type JobExperience } from './jobs'
+
+export type ExperienceRange = {
+  min: number
+  max: number
+}
+
+export const EXPERIENCE_RANGES: Record<JobExperience, ExperienceRange> = {
+  Fresher: { min: 0, max: 0 },
+  '0-1': { min: 0, max: 1 },
+  '1-3': { min: 1, max: 3 },
+  '3-5': { min: 3, max: 5 },
+}
+
+const OVERLAP_CREDIT = 0.6
+
+const ADJACENT_CREDIT = 0.3
+
+const UNDERQUALIFIED_PENALTY = -0.5
+
+const ADJACENT_GAP_YEARS = 1
+
+export const parseExperiencePreference = (value: unknown): ExperienceRange | null => {
+  if (typeof value === 'string') {
+    return JOB_EXPERIENCES.includes(value as JobExperience)
+      ? EXPERIENCE_RANGES[value as JobExperience]
+      : null
+  }
+  if (typeof value !== 'object' || value === null) return null
+  const { min, max } = value as Partial<ExperienceRange>
+  if (typeof min !== 'number' || typeof max !== 'number' || min < 0 || max < min) return null
+  return { min, max }
+}
+
+export const formatExperienceRange = ({ min, max }: ExperienceRange): string => {
+  if (max === 0) return 'Fresher'
+  if (min === max) return `${min} years`
+  return `${min}–${max} years`
+}
+
+export const computeExperienceFit = (
+  experience: JobExperience,
+  preferred: ExperienceRange,
+): number => {
+  const job = EXPERIENCE_RANGES[experience]
+  if (job.min >= preferred.min && job.max <= preferred.max) return 1
+  const gapAbove = job.min - preferred.max
+  const gapBelow = preferred.min - job.max
+  if (gapAbove <= 0 && gapBelow <= 0) return OVERLAP_CREDIT
+  if (gapAbove > 0) {
+    return gapAbove <= ADJACENT_GAP_YEARS ? ADJACENT_CREDIT : UNDERQUALIFIED_PENALTY
+  }
+  return gapBelow <= ADJACENT_GAP_YEARS ? ADJACENT_CREDIT : 0
+}
@@ -0,0 +1,63 @@
+import { JOB_EXPERIENCES, JOB_MODES, type Job } from './jobs'
+import { getSourceDisplayName } from './sources'
+
+export type FacetKey = 'location' | 'mode' | 'experience' | 'source' | 'skills'
+
+export type FacetSelection = Record<FacetKey, string[]>
+
+export type FacetCount = {
+  value: string
+  count: number
+}
+
+export const FACETS: { key: FacetKey; label: string; order?: string[] }[] = [
+  { key: 'location', label: 'Location' },
+  { key: 'mode', label: 'Mode', order: JOB_MODES },
+  { key: 'experience', label: 'Experience', order: JOB_EXPERIENCES },
+  { key: 'source', label: 'Source' },
+  { key: 'skills', label: 'Skills' },
+]
+
+export const EMPTY_FACET_SELECTION: FacetSelection = {
+  location: [],
+  mode: [],
+  experience: [],
+  source: [],
+  skills: [],
+}
+
+export const getFacetValues = (job: Job, key: FacetKey): string[] =>
+  key === 'skills' ? job.skills : [job[key]]
+
+export const formatFacetValue = (key: FacetKey, value: string): string =>
+  key === 'source' ? getSourceDisplayName(value) : value
+
+export const matchesFacets = (job: Job, selection: FacetSelection, ignore?: FacetKey): boolean =>
+  FACETS.every(
+    ({ key }) =>
+      key === ignore ||
+      selection[key].length === 0 ||
+      getFacetValues(job, key).some((value) => selection[key].includes(value)),
+  )
+
+export const countFacetValues = (
+  universe: Job[],
+  jobs: Job[],
+  selection: FacetSelection,
+  key: FacetKey,
+): FacetCount[] => {
+  const counts = new Map<string, number>()
+  universe.forEach((job) => getFacetValues(job, key).forEach((value) => counts.set(value, 0)))
+  selection[key].forEach((value) => counts.set(value, counts.get(value) ?? 0))
+  jobs.forEach((job) => {
+    if (!matchesFacets(job, selection, key)) return
+    getFacetValues(job, key).forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1))
+  })
+
+  const order = FACETS.find((facet) => facet.key === key)?.order
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) =>
+    order
+      ? order.indexOf(a.value) - order.indexOf(b.value)
+      : b.count - a.count || a.value.localeCompare(b.value),
+  )
+}
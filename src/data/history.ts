@@ -0,0 +1,114 @@
+import { findStage, getInitialStage, migrateLegacyStatus, type Pipeline } from './pipeline'
+import { daysBetween } from './recency'
+
+export type StatusEvent = {
+  status: string
+  at: string
+  note?: string
+}
+
+export type StatusLog = Record<number, StatusEvent[]>
+
+export type JobStatusRecord = {
+  status: string
+  updatedAt: string
+}
+
+export type StageSpan = {
+  event: StatusEvent
+  days: number
+  current: boolean
+}
+
+export const STATUS_STORAGE_KEY = 'jobTrackerStatus'
+
+const isStatusEvent = (value: unknown): value is StatusEvent => {
+  if (typeof value !== 'object' || value === null) return false
+  const { status, at, note } = value as Partial<StatusEvent>
+  return (
+    typeof status === 'string' &&
+    typeof at === 'string' &&
+    !Number.isNaN(Date.parse(at)) &&
+    (note === undefined || typeof note === 'string')
+  )
+}
+
+const byTimestamp = (a: StatusEvent, b: StatusEvent): number =>
+  Date.parse(a.at) - Date.parse(b.at)
+
+const parseEvents = (value: unknown): StatusEvent[] => {
+  if (Array.isArray(value)) {
+    return value
+      .filter(isStatusEvent)
+      .map((event) => ({ ...event, status: migrateLegacyStatus(event.status) }))
+      .sort(byTimestamp)
+  }
+  if (typeof value !== 'object' || value === null) return []
+  const { status, updatedAt } = value as Partial<JobStatusRecord>
+  if (typeof status !== 'string' || typeof updatedAt !== 'string') return []
+  return [{ status: migrateLegacyStatus(status), at: updatedAt }]
+}
+
+export const parseStatusLog = (value: unknown): StatusLog => {
+  if (typeof value !== 'object' || value === null) return {}
+  const log: StatusLog = {}
+  Object.entries(value).forEach(([id, entry]) => {
+    const numericId = Number(id)
+    const events = parseEvents(entry)
+    if (!Number.isNaN(numericId) && events.length > 0) log[numericId] = events
+  })
+  return log
+}
+
+export const loadStatusLog = (): StatusLog => {
+  const raw = window.localStorage.getItem(STATUS_STORAGE_KEY)
+  if (!raw) return {}
+  try {
+    return parseStatusLog(JSON.parse(raw))
+  } catch {
+    return {}
+  }
+}
+
+export const saveStatusLog = (log: StatusLog) => {
+  window.localStorage.setItem(STATUS_STORAGE_KEY, JSON.stringify(log))
+}
+
+export const appendStatusEvent = (log: StatusLog, jobId: number, event: StatusEvent): StatusLog => ({
+  ...log,
+  [jobId]: [...(log[jobId] ?? []), event],
+})
+
+export const getLatestStatuses = (log: StatusLog): Record<number, JobStatusRecord> => {
+  const latest: Record<number, JobStatusRecord> = {}
+  Object.entries(log).forEach(([id, events]) => {
+    const last = events[events.length - 1]
+    if (last) latest[Number(id)] = { status: last.status, updatedAt: last.at }
+  })
+  return latest
+}
+
+export const mergeStatusEvents = (logs: StatusEvent[][]): StatusEvent[] =>
+  logs.flat().sort(byTimestamp)
+
+export const getStageSpans = (events: StatusEvent[], now: Date = new Date()): StageSpan[] =>
+  events.map((event, index) => {
+    const next = events[index + 1]
+    return {
+      event,
+      days: daysBetween(new Date(event.at), next ? new Date(next.at) : now),
+      current: !next,
+    }
+  })
+
+export const daysSinceApplied = (
+  events: StatusEvent[],
+  pipeline: Pipeline,
+  now: Date = new Date(),
+): number | null => {
+  const initialId = getInitialStage(pipeline).id
+  const applied = events.find((event) => findStage(pipeline, event.status).id !== initialId)
+  return applied ? daysBetween(new Date(applied.at), now) : null
+}
+
+export const formatDays = (days: number): string => (days === 1 ? '1 day' : `${days} days`)
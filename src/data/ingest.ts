@@ -0,0 +1,264 @@
+import { JOB_EXPERIENCES, JOB_MODES } from './jobs'
+import { postedAtFromDaysAgo } from './recency'
+import { getJobSource, listJobSources } from './sources'
+
+export type JobFeedFormat = 'json' | 'csv'
+
+export type RawJobRecord = Record<string, unknown>
+
+export type JobFeedImport = {
+  records: RawJobRecord[]
+}
+
+export const IMPORTED_JOBS_STORAGE_KEY = 'jobTrackerImportedJobs'
+
+export const detectFeedFormat = (
+  name: string,
+  contentType: string | null,
+  text: string,
+): JobFeedFormat => {
+  const lowerName = name.toLowerCase()
+  if (lowerName.endsWith('.csv') || contentType?.includes('csv')) return 'csv'
+  if (lowerName.endsWith('.json') || contentType?.includes('json')) return 'json'
+  const firstChar = text.trimStart().charAt(0)
+  return firstChar === '[' || firstChar === '{' ? 'json' : 'csv'
+}
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i += 1
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()))
+}
+
+export const parseJobFeed = (text: string, format: JobFeedFormat): RawJobRecord[] => {
+  if (format === 'json') {
+    const parsed = JSON.parse(text) as unknown
+    const list = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { jobs?: unknown } | null)?.jobs
+    if (!Array.isArray(list)) {
+      throw new Error('JSON feed must be an array of jobs or an object with a "jobs" array.')
+    }
+    return list.filter(
+      (item): item is RawJobRecord => typeof item === 'object' && item !== null,
+    )
+  }
+
+  const [header, ...rows] = parseCsv(text)
+  if (!header) return []
+  const columns = header.map((column) => column.trim())
+  return rows.map((cells) =>
+    Object.fromEntries(columns.map((column, index) => [column, cells[index]?.trim() ?? ''])),
+  )
+}
+
+const readString = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : ''
+
+const readSkills = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(readString).filter(Boolean)
+  return readString(value)
+    .split(/[;|]/)
+    .map((skill) => skill.trim())
+    .filter(Boolean)
+}
+
+const readOption = (value: unknown, options: string[]): string => {
+  const text = readString(value)
+  const key = text.toLowerCase().replace(/[^a-z0-9]/g, '')
+  return options.find((option) => option.toLowerCase().replace(/[^a-z0-9]/g, '') === key) ?? text
+}
+
+const readNumber = (value: unknown): number | null => {
+  const text = readString(value)
+  if (!text) return null
+  const parsed = Number(text)
+  return Number.isNaN(parsed) ? null : parsed
+}
+
+const readPostedAt = (postedAt: unknown, postedDaysAgo: unknown): string => {
+  const value = readString(postedAt)
+  if (value) return value
+  const daysAgo = readNumber(postedDaysAgo)
+  return daysAgo === null ? '' : postedAtFromDaysAgo(daysAgo)
+}
+
+const ELIGIBILITY_LIST_FIELDS = ['degrees', 'branches']
+
+const ELIGIBILITY_NUMBER_FIELDS = ['minCgpa', 'maxBacklogs', 'bondMonths']
+
+const ELIGIBILITY_FIELDS = ['graduationYears', ...ELIGIBILITY_LIST_FIELDS, ...ELIGIBILITY_NUMBER_FIELDS]
+
+const readEligibility = (raw: RawJobRecord): RawJobRecord | undefined => {
+  const nested =
+    typeof raw.eligibility === 'object' && raw.eligibility !== null
+      ? (raw.eligibility as RawJobRecord)
+      : raw
+  const eligibility: RawJobRecord = {}
+  if (nested.graduationYears !== undefined && readSkills(nested.graduationYears).length > 0) {
+    eligibility.graduationYears = readSkills(nested.graduationYears).map((year) => readNumber(year))
+  }
+  ELIGIBILITY_LIST_FIELDS.forEach((field) => {
+    if (nested[field] !== undefined && readSkills(nested[field]).length > 0) {
+      eligibility[field] = readSkills(nested[field])
+    }
+  })
+  ELIGIBILITY_NUMBER_FIELDS.forEach((field) => {
+    if (nested[field] !== undefined && readString(nested[field]) !== '') {
+      eligibility[field] = readNumber(nested[field])
+    }
+  })
+  return Object.keys(eligibility).length > 0 ? eligibility : undefined
+}
+
+const normalizeRecord = (raw: RawJobRecord, id: number): RawJobRecord => {
+  const { postedDaysAgo, ...rest } = raw
+  ELIGIBILITY_FIELDS.forEach((field) => delete rest[field])
+  return {
+    ...rest,
+    id,
+    title: readString(raw.title),
+    company: readString(raw.company),
+    location: readString(raw.location),
+    mode: readOption(raw.mode, JOB_MODES),
+    experience: readOption(raw.experience, JOB_EXPERIENCES),
+    skills: readSkills(raw.skills),
+    requiredSkills: raw.requiredSkills === undefined ? undefined : readSkills(raw.requiredSkills),
+    niceToHaveSkills:
+      raw.niceToHaveSkills === undefined ? undefined : readSkills(raw.niceToHaveSkills),
+    source: readOption(
+      raw.source,
+      listJobSources().map((source) => source.id),
+    ),
+    postedAt: readPostedAt(raw.postedAt, postedDaysAgo),
+    deadline: readString(raw.deadline) || undefined,
+    salaryRange: readString(raw.salaryRange),
+    applyUrl: readString(raw.applyUrl),
+    description: readString(raw.description).replace(/\\n/g, '\n'),
+    listingStatus: readString(raw.listingStatus).toLowerCase() || undefined,
+    eligibility: readEligibility(raw),
+  }
+}
+
+const externalKey = (feed: unknown, externalId: unknown): string | null =>
+  typeof feed === 'string' && typeof externalId === 'string' && externalId
+    ? `${feed}\u0000${externalId}`
+    : null
+
+export const importJobFeed = (
+  text: string,
+  format: JobFeedFormat,
+  existing: RawJobRecord[],
+  feed: string,
+  sourceId?: string,
+): JobFeedImport => {
+  const source = sourceId ? getJobSource(sourceId) : undefined
+  const raws = parseJobFeed(text, format).map((raw) =>
+    source ? { source: source.id, ...source.parseRecord(raw) } : raw,
+  )
+  let nextId =
+    existing.reduce(
+      (max, record) => (typeof record.id === 'number' ? Math.max(max, record.id) : max),
+      0,
+    ) + 1
+  const previousIds = new Map<string, number>()
+  existing.forEach((record) => {
+    const key = externalKey(record.feed, record.externalId)
+    if (key && typeof record.id === 'number') previousIds.set(key, record.id)
+  })
+
+  const records = raws.map((raw) => {
+    const externalId = readString(raw.id)
+    const key = externalKey(feed, externalId)
+    const previousId = key ? previousIds.get(key) : undefined
+    if (key) previousIds.delete(key)
+    const id = previousId ?? nextId
+    if (previousId === undefined) nextId += 1
+    return {
+      ...normalizeRecord(raw, id),
+      feed,
+      ...(externalId ? { externalId } : {}),
+    }
+  })
+
+  return { records }
+}
+
+export const fetchJobFeed = async (
+  url: string,
+): Promise<{ text: string; format: JobFeedFormat }> => {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Feed request failed with status ${response.status}.`)
+  }
+  const text = await response.text()
+  const pathname = new URL(url, window.location.href).pathname
+  return {
+    text,
+    format: detectFeedFormat(pathname, response.headers.get('content-type'), text),
+  }
+}
+
+export const mergeById = <T extends { id?: unknown }>(base: T[], imported: T[]): T[] => {
+  const byId = new Map(base.map((item) => [item.id, item] as const))
+  imported.forEach((item) => byId.set(item.id, item))
+  return Array.from(byId.values())
+}
+
+export const loadImportedRecords = (): RawJobRecord[] => {
+  const raw = window.localStorage.getItem(IMPORTED_JOBS_STORAGE_KEY)
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw) as RawJobRecord[]
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export const saveImportedRecords = (records: RawJobRecord[]) => {
+  try {
+    window.localStorage.setItem(IMPORTED_JOBS_STORAGE_KEY, JSON.stringify(records))
+  } catch {
+    throw new Error(
+      'This browser has no room left to store these jobs. Import a smaller feed or clear imported jobs first.',
+    )
+  }
+}
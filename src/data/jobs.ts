@@ -1,8 +1,28 @@
+import { postedAtFromDaysAgo } from './recency'
+import type { JobSalary } from './salary'
+
 export type JobMode = 'Remote' | 'Hybrid' | 'Onsite'
 
 export type JobExperience = 'Fresher' | '0-1' | '1-3' | '3-5'
 
-export type JobSource = 'LinkedIn' | 'Naukri' | 'Indeed'
+export type JobSource = string
+
+export type JobListingStatus = 'open' | 'closed'
+
+export const JOB_MODES: JobMode[] = ['Remote', 'Hybrid', 'Onsite']
+
+export const JOB_EXPERIENCES: JobExperience[] = ['Fresher', '0-1', '1-3', '3-5']
+
+export const JOB_LISTING_STATUSES: JobListingStatus[] = ['open', 'closed']
+
+export type JobEligibility = {
+  graduationYears?: number[]
+  degrees?: string[]
+  branches?: string[]
+  minCgpa?: number
+  maxBacklogs?: number
+  bondMonths?: number
+}
 
 export type Job = {
   id: number
@@ -12,14 +32,34 @@ export type Job = {
   mode: JobMode
   experience: JobExperience
   skills: string[]
+  requiredSkills?: string[]
+  niceToHaveSkills?: string[]
   source: JobSource
-  postedDaysAgo: number
+  postedAt: string
+  deadline?: string
   salaryRange: string
+  salary?: JobSalary | null
   applyUrl: string
   description: string
+  listingStatus?: JobListingStatus
+  eligibility?: JobEligibility
+}
+
+export type BundledJob = Omit<Job, 'postedAt' | 'deadline'> & {
+  postedDaysAgo: number
+  deadlineInDays?: number
 }
 
-export const JOBS: Job[] = [
+export const resolveBundledJob = (
+  { postedDaysAgo, deadlineInDays, ...job }: BundledJob,
+  now: Date = new Date(),
+): Job => ({
+  ...job,
+  postedAt: postedAtFromDaysAgo(postedDaysAgo, now),
+  ...(deadlineInDays === undefined ? {} : { deadline: postedAtFromDaysAgo(-deadlineInDays, now) }),
+})
+
+export const JOBS: BundledJob[] = [
   {
     id: 1,
     title: 'SDE Intern',
@@ -30,9 +70,16 @@ export const JOBS: Job[] = [
     skills: ['Java', 'Data Structures', 'REST APIs'],
     source: 'LinkedIn',
     postedDaysAgo: 1,
+    deadlineInDays: 2,
     salaryRange: '₹15k–₹40k/month Internship',
     applyUrl: 'https://careers.infosys.com/job/sde-intern-bengaluru-1',
     description: `Work with senior engineers to build internal tools and client-facing features.\nYou will contribute to code reviews, debugging sessions, and documentation.\nIdeal for final-year students who are comfortable with Java and basic web concepts.`,
+    eligibility: {
+      graduationYears: [2027],
+      degrees: ['B.E.', 'B.Tech', 'MCA'],
+      minCgpa: 6.5,
+      maxBacklogs: 0,
+    },
   },
   {
     id: 2,
@@ -44,9 +91,16 @@ export const JOBS: Job[] = [
     skills: ['Java', 'Spring Boot', 'SQL'],
     source: 'Naukri',
     postedDaysAgo: 3,
+    deadlineInDays: 12,
     salaryRange: '3–5 LPA',
     applyUrl: 'https://careers.tcs.com/job/graduate-engineer-trainee-pune-2',
     description: `Join the core delivery team working on enterprise applications for global clients.\nYou will rotate across modules, learn SDLC best practices, and contribute to production fixes.\nSuitable for engineering graduates with strong fundamentals in object-oriented programming.`,
+    eligibility: {
+      graduationYears: [2025, 2026],
+      degrees: ['B.E.', 'B.Tech', 'M.Tech', 'MCA', 'M.Sc'],
+      minCgpa: 6,
+      maxBacklogs: 1,
+    },
   },
   {
     id: 3,
@@ -170,6 +224,7 @@ export const JOBS: Job[] = [
     skills: ['Java', 'Algorithms', 'Distributed Systems'],
     source: 'LinkedIn',
     postedDaysAgo: 0,
+    deadlineInDays: 3,
     salaryRange: '₹15k–₹40k/month Internship',
     applyUrl: 'https://www.amazon.jobs/en/jobs/sde-intern-bengaluru-11',
     description: `Work with a small team on high-impact services used at scale.\nYou will write production-grade code under the guidance of experienced mentors.\nStrong problem-solving skills and comfort with data structures are required.`,
@@ -324,9 +379,17 @@ export const JOBS: Job[] = [
     skills: ['Java', 'Spring Boot', 'SQL'],
     source: 'Indeed',
     postedDaysAgo: 5,
+    deadlineInDays: 17,
     salaryRange: '3–5 LPA',
     applyUrl: 'https://codenestsystems.com/careers/get-pune-22',
     description: `Rotate across backend, frontend, and QA teams in a structured program.\nYou will pair with mentors, ship small features, and learn production workflows.\nStrong fundamentals and curiosity to work across the stack are desired.`,
+    eligibility: {
+      graduationYears: [2025, 2026],
+      degrees: ['B.E.', 'B.Tech'],
+      branches: ['CSE', 'IT', 'ECE'],
+      minCgpa: 7,
+      bondMonths: 12,
+    },
   },
   {
     id: 23,
@@ -464,9 +527,17 @@ export const JOBS: Job[] = [
     skills: ['Java', 'Angular', 'SQL'],
     source: 'Naukri',
     postedDaysAgo: 8,
+    deadlineInDays: 1,
     salaryRange: '3–5 LPA',
     applyUrl: 'https://novaedge.in/careers/get-chennai-32',
     description: `Start your career in a structured engineering program.\nYou will rotate across UI and backend modules under senior mentorship.\nStrong academic record and clarity in fundamentals are preferred.`,
+    eligibility: {
+      graduationYears: [2026],
+      degrees: ['B.E.', 'B.Tech', 'MCA'],
+      minCgpa: 6.5,
+      maxBacklogs: 0,
+      bondMonths: 18,
+    },
   },
   {
     id: 33,
@@ -604,9 +675,16 @@ export const JOBS: Job[] = [
     skills: ['C#', '.NET', 'SQL Server'],
     source: 'Indeed',
     postedDaysAgo: 6,
+    deadlineInDays: 27,
     salaryRange: '3–5 LPA',
     applyUrl: 'https://corebridgeit.in/careers/get-ahmedabad-42',
     description: `Learn and contribute to enterprise application development for global clients.\nYou will shadow senior developers and own small enhancements.\nStrong fundamentals in programming and databases are expected.`,
+    eligibility: {
+      graduationYears: [2025, 2026],
+      degrees: ['B.E.', 'B.Tech', 'BCA', 'MCA'],
+      maxBacklogs: 0,
+      bondMonths: 24,
+    },
   },
   {
     id: 43,
@@ -744,9 +822,15 @@ export const JOBS: Job[] = [
     skills: ['Java', 'React', 'SQL'],
     source: 'Indeed',
     postedDaysAgo: 2,
+    deadlineInDays: 6,
     salaryRange: '3–5 LPA',
     applyUrl: 'https://zenithsoftglobal.com/careers/get-hyderabad-52',
     description: `Participate in a structured training program across full-stack modules.\nYou will learn by pairing with senior developers on client projects.\nStrong problem-solving skills and communication are required.`,
+    eligibility: {
+      graduationYears: [2026],
+      branches: ['CSE', 'IT'],
+      minCgpa: 7.5,
+    },
   },
   {
     id: 53,
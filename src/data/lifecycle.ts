@@ -0,0 +1,29 @@
+import type { Job } from './jobs'
+import { daysUntil, parseJobDate } from './recency'
+
+export type JobLifecycle = 'open' | 'closing-soon' | 'closed'
+
+export const CLOSING_SOON_DAYS = 3
+
+export const getJobLifecycle = (job: Job, now: Date = new Date()): JobLifecycle => {
+  if (job.listingStatus === 'closed') return 'closed'
+  if (!job.deadline) return 'open'
+  const remaining = daysUntil(job.deadline, now)
+  if (remaining < 0) return 'closed'
+  return remaining <= CLOSING_SOON_DAYS ? 'closing-soon' : 'open'
+}
+
+export const isJobClosed = (job: Job, now: Date = new Date()): boolean =>
+  getJobLifecycle(job, now) === 'closed'
+
+export const deadlineTimestamp = (job: Job): number =>
+  (job.deadline && parseJobDate(job.deadline)?.getTime()) || Number.POSITIVE_INFINITY
+
+export const formatDeadline = (job: Job, now: Date = new Date()): string => {
+  if (!job.deadline) return ''
+  const remaining = daysUntil(job.deadline, now)
+  if (remaining < 0) return `Closed ${parseJobDate(job.deadline)?.toLocaleDateString() ?? ''}`
+  if (remaining === 0) return 'Closes today'
+  if (remaining === 1) return 'Closes tomorrow'
+  return `Closes in ${remaining} days`
+}
@@ -0,0 +1,59 @@
+export type NoteInline =
+  | { kind: 'text' | 'bold' | 'code'; text: string }
+  | { kind: 'link'; text: string; href: string }
+
+export type NoteBlock =
+  | { kind: 'heading'; content: NoteInline[] }
+  | { kind: 'paragraph'; lines: NoteInline[][] }
+  | { kind: 'list'; ordered: boolean; items: NoteInline[][] }
+
+const INLINE_PATTERN =
+  /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)|(https?:\/\/[^\s<]*[^\s<.,;:!?)'"])|\*\*([^*]+)\*\*|`([^`]+)`/g
+
+const HEADING_PATTERN = /^#{1,3}\s+(.*)$/
+
+const BULLET_PATTERN = /^\s*[-*]\s+(.*)$/
+
+const NUMBERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/
+
+export const parseNoteInline = (text: string): NoteInline[] => {
+  const parts: NoteInline[] = []
+  let last = 0
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > last) parts.push({ kind: 'text', text: text.slice(last, index) })
+    const [whole, label, labelledHref, bareHref, bold, code] = match
+    if (label && labelledHref) parts.push({ kind: 'link', text: label, href: labelledHref })
+    else if (bareHref) parts.push({ kind: 'link', text: bareHref, href: bareHref })
+    else if (bold) parts.push({ kind: 'bold', text: bold })
+    else parts.push({ kind: 'code', text: code ?? whole })
+    last = index + whole.length
+  }
+  if (last < text.length) parts.push({ kind: 'text', text: text.slice(last) })
+  return parts
+}
+
+export const parseNotes = (notes: string): NoteBlock[] => {
+  const blocks: NoteBlock[] = []
+  notes.split(/\r?\n/).forEach((line) => {
+    const previous = blocks[blocks.length - 1]
+    const heading = line.match(HEADING_PATTERN)
+    const bullet = line.match(BULLET_PATTERN)
+    const numbered = bullet ? null : line.match(NUMBERED_PATTERN)
+    if (!line.trim()) {
+      blocks.push({ kind: 'paragraph', lines: [] })
+    } else if (heading) {
+      blocks.push({ kind: 'heading', content: parseNoteInline(heading[1] ?? '') })
+    } else if (bullet || numbered) {
+      const ordered = Boolean(numbered)
+      const item = parseNoteInline((bullet ?? numbered)?.[1] ?? '')
+      if (previous?.kind === 'list' && previous.ordered === ordered) previous.items.push(item)
+      else blocks.push({ kind: 'list', ordered, items: [item] })
+    } else if (previous?.kind === 'paragraph') {
+      previous.lines.push(parseNoteInline(line))
+    } else {
+      blocks.push({ kind: 'paragraph', lines: [parseNoteInline(line)] })
+    }
+  })
+  return blocks.filter((block) => block.kind !== 'paragraph' || block.lines.length > 0)
+}
@@ -0,0 +1,193 @@
+export type StageTone = 'neutral' | 'active' | 'success' | 'closed'
+
+export type PipelineStage = {
+  id: string
+  label: string
+  tone: StageTone
+  terminal: boolean
+}
+
+export type Pipeline = {
+  stages: PipelineStage[]
+  transitions: Record<string, string[]>
+}
+
+export const STAGE_TONES: StageTone[] = ['neutral', 'active', 'success', 'closed']
+
+export const PIPELINE_STORAGE_KEY = 'jobTrackerPipeline'
+
+const DEFAULT_STAGES: PipelineStage[] = [
+  { id: 'not-applied', label: 'Not Applied', tone: 'neutral', terminal: false },
+  { id: 'applied', label: 'Applied', tone: 'active', terminal: false },
+  { id: 'online-assessment', label: 'Online Assessment', tone: 'active', terminal: false },
+  { id: 'technical', label: 'Technical Rounds', tone: 'active', terminal: false },
+  { id: 'hr', label: 'HR Round', tone: 'active', terminal: false },
+  { id: 'offer', label: 'Offer', tone: 'success', terminal: false },
+  { id: 'accepted', label: 'Accepted', tone: 'success', terminal: true },
+  { id: 'declined', label: 'Declined', tone: 'closed', terminal: true },
+  { id: 'rejected', label: 'Rejected', tone: 'closed', terminal: true },
+  { id: 'ghosted', label: 'Ghosted', tone: 'closed', terminal: true },
+]
+
+const CLOSED_OUTCOMES = ['rejected', 'ghosted']
+
+export const DEFAULT_PIPELINE: Pipeline = {
+  stages: DEFAULT_STAGES,
+  transitions: {
+    'not-applied': ['applied'],
+    applied: ['online-assessment', 'technical', 'hr', 'offer', ...CLOSED_OUTCOMES],
+    'online-assessment': ['technical', 'hr', 'offer', ...CLOSED_OUTCOMES],
+    technical: ['hr', 'offer', ...CLOSED_OUTCOMES],
+    hr: ['offer', ...CLOSED_OUTCOMES],
+    offer: ['accepted', 'declined', 'rejected'],
+    accepted: [],
+    declined: [],
+    rejected: [],
+    ghosted: ['applied', 'online-assessment', 'technical', 'hr', 'offer', 'rejected'],
+  },
+}
+
+const LEGACY_STATUSES: Record<string, string> = {
+  'Not Applied': 'not-applied',
+  Applied: 'applied',
+  Rejected: 'rejected',
+  Selected: 'offer',
+}
+
+const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+
+export const getInitialStage = (pipeline: Pipeline): PipelineStage => pipeline.stages[0]!
+
+export const findStage = (pipeline: Pipeline, id: string | undefined): PipelineStage =>
+  pipeline.stages.find((stage) => stage.id === id) ?? getInitialStage(pipeline)
+
+export const migrateLegacyStatus = (status: string): string => LEGACY_STATUSES[status] ?? status
+
+export const canTransition = (pipeline: Pipeline, from: string, to: string): boolean =>
+  from !== to && (pipeline.transitions[from] ?? []).includes(to)
+
+export const getNextStages = (pipeline: Pipeline, from: string): PipelineStage[] =>
+  pipeline.stages.filter((stage) => canTransition(pipeline, from, stage.id))
+
+export const addStage = (pipeline: Pipeline, label: string): Pipeline => {
+  const base = slugify(label) || 'stage'
+  let id = base
+  for (let suffix = 2; pipeline.stages.some((stage) => stage.id === id); suffix += 1) {
+    id = `${base}-${suffix}`
+  }
+  const initialId = getInitialStage(pipeline).id
+  const openStages = pipeline.stages.filter((stage) => !stage.terminal && stage.id !== initialId)
+  const stage: PipelineStage = { id, label: label.trim(), tone: 'active', terminal: false }
+  const firstTerminal = pipeline.stages.findIndex((existing) => existing.terminal)
+  const insertAt = firstTerminal === -1 ? pipeline.stages.length : firstTerminal
+  return {
+    stages: [...pipeline.stages.slice(0, insertAt), stage, ...pipeline.stages.slice(insertAt)],
+    transitions: {
+      ...Object.fromEntries(
+        Object.entries(pipeline.transitions).map(([from, targets]) => [
+          from,
+          openStages.some((stage) => stage.id === from) ? [...targets, id] : targets,
+        ]),
+      ),
+      [id]: pipeline.stages.filter((stage) => stage.id !== initialId).map((stage) => stage.id),
+    },
+  }
+}
+
+export const updateStage = (
+  pipeline: Pipeline,
+  id: string,
+  partial: Partial<Omit<PipelineStage, 'id'>>,
+): Pipeline => ({
+  ...pipeline,
+  stages: pipeline.stages.map((stage) => (stage.id === id ? { ...stage, ...partial } : stage)),
+})
+
+export const removeStage = (pipeline: Pipeline, id: string): Pipeline => {
+  if (id === getInitialStage(pipeline).id) return pipeline
+  return {
+    stages: pipeline.stages.filter((stage) => stage.id !== id),
+    transitions: Object.fromEntries(
+      Object.entries(pipeline.transitions)
+        .filter(([from]) => from !== id)
+        .map(([from, targets]) => [from, targets.filter((target) => target !== id)]),
+    ),
+  }
+}
+
+export const moveStage = (pipeline: Pipeline, id: string, offset: -1 | 1): Pipeline => {
+  const index = pipeline.stages.findIndex((stage) => stage.id === id)
+  const target = index + offset
+  if (index <= 0 || target <= 0 || target >= pipeline.stages.length) return pipeline
+  const stages = [...pipeline.stages]
+  const [moved] = stages.splice(index, 1)
+  stages.splice(target, 0, moved!)
+  return { ...pipeline, stages }
+}
+
+export const toggleTransition = (pipeline: Pipeline, from: string, to: string): Pipeline => {
+  if (from === to) return pipeline
+  const targets = pipeline.transitions[from] ?? []
+  return {
+    ...pipeline,
+    transitions: {
+      ...pipeline.transitions,
+      [from]: targets.includes(to) ? targets.filter((target) => target !== to) : [...targets, to],
+    },
+  }
+}
+
+const isStage = (value: unknown): value is PipelineStage => {
+  if (typeof value !== 'object' || value === null) return false
+  const { id, label, tone, terminal } = value as Partial<PipelineStage>
+  return (
+    typeof id === 'string' &&
+    id.length > 0 &&
+    typeof label === 'string' &&
+    STAGE_TONES.includes(tone as StageTone) &&
+    typeof terminal === 'boolean'
+  )
+}
+
+export const parsePipeline = (value: unknown): Pipeline => {
+  if (typeof value !== 'object' || value === null) return DEFAULT_PIPELINE
+  const { stages, transitions } = value as Partial<Pipeline>
+  if (!Array.isArray(stages) || !stages.every(isStage) || stages.length === 0) {
+    return DEFAULT_PIPELINE
+  }
+  const ids = new Set(stages.map((stage) => stage.id))
+  if (ids.size !== stages.length) return DEFAULT_PIPELINE
+  const rawTransitions = typeof transitions === 'object' && transitions !== null ? transitions : {}
+  return {
+    stages,
+    transitions: Object.fromEntries(
+      stages.map((stage) => {
+        const targets = rawTransitions[stage.id]
+        return [
+          stage.id,
+          Array.isArray(targets)
+            ? targets.filter((target) => ids.has(target) && target !== stage.id)
+            : [],
+        ]
+      }),
+    ),
+  }
+}
+
+export const loadPipeline = (): Pipeline => {
+  const raw = window.localStorage.getItem(PIPELINE_STORAGE_KEY)
+  if (!raw) return DEFAULT_PIPELINE
+  try {
+    return parsePipeline(JSON.parse(raw))
+  } catch {
+    return DEFAULT_PIPELINE
+  }
+}
+
+export const savePipeline = (pipeline: Pipeline) => {
+  window.localStorage.setItem(PIPELINE_STORAGE_KEY, JSON.stringify(pipeline))
+}
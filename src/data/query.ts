@@ -0,0 +1,380 @@
+import { normalizeCompany } from './dedupe'
+import { JOB_EXPERIENCES, JOB_MODES, type Job } from './jobs'
+import { daysSincePosted } from './recency'
+import { annualizeSalary, LAKH } from './salary'
+import { expandSkills, hasSkill } from './skills'
+import { listJobSources } from './sources'
+
+export type QueryField =
+  | 'skill'
+  | 'mode'
+  | 'experience'
+  | 'company'
+  | 'title'
+  | 'location'
+  | 'source'
+  | 'status'
+
+export type QueryMetric = 'salary' | 'posted' | 'match'
+
+export type ComparisonOperator = '>=' | '<=' | '>' | '<' | '='
+
+export type QueryPredicate =
+  | { kind: 'text'; text: string }
+  | { kind: 'field'; field: QueryField; value: string }
+  | { kind: 'compare'; metric: QueryMetric; operator: ComparisonOperator; value: number }
+
+export type QuerySpan = {
+  start: number
+  end: number
+}
+
+export type QueryNode =
+  | { kind: 'predicate'; predicate: QueryPredicate; span: QuerySpan }
+  | { kind: 'not'; node: QueryNode }
+  | { kind: 'and'; nodes: QueryNode[] }
+  | { kind: 'or'; nodes: QueryNode[] }
+
+export type QueryError = {
+  token: string
+  start: number
+  message: string
+}
+
+export type JobQuery = {
+  nodes: QueryNode[]
+  searchText: string
+  errors: QueryError[]
+}
+
+export type JobQueryContext = {
+  status: string
+  matchScore: number
+  notes: string
+}
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  skill: 'skill',
+  skills: 'skill',
+  mode: 'mode',
+  exp: 'experience',
+  experience: 'experience',
+  company: 'company',
+  title: 'title',
+  location: 'location',
+  loc: 'location',
+  city: 'location',
+  source: 'source',
+  status: 'status',
+}
+
+const METRIC_ALIASES: Record<string, QueryMetric> = {
+  salary: 'salary',
+  ctc: 'salary',
+  posted: 'posted',
+  age: 'posted',
+  match: 'match',
+  score: 'match',
+}
+
+const METRIC_UNITS: Record<QueryMetric, RegExp> = {
+  salary: /^(\d+(?:\.\d+)?)\s*(lpa|l)?$/i,
+  posted: /^(\d+)\s*(d|days?)?$/i,
+  match: /^(\d+)\s*%?$/,
+}
+
+const METRIC_EXAMPLES: Record<QueryMetric, string> = {
+  salary: 'salary>=6lpa',
+  posted: 'posted<3',
+  match: 'match>=60',
+}
+
+type Token = {
+  text: string
+  start: number
+}
+
+export const optionKey = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+const tokenizeQuery = (input: string): Token[] => {
+  const tokens: Token[] = []
+  let index = 0
+  while (index < input.length) {
+    const char = input[index]!
+    if (/\s/.test(char)) {
+      index += 1
+      continue
+    }
+    if (char === '(' || char === ')' || char === '|') {
+      tokens.push({ text: char, start: index })
+      index += 1
+      continue
+    }
+    if (char === '-' && input[index + 1] === '(') {
+      tokens.push({ text: '-', start: index })
+      index += 1
+      continue
+    }
+    const start = index
+    let inQuotes = false
+    while (index < input.length) {
+      const current = input[index]!
+      if (current === '"') inQuotes = !inQuotes
+      else if (!inQuotes && (/\s/.test(current) || current === '(' || current === ')')) break
+      index += 1
+    }
+    tokens.push({ text: input.slice(start, index), start })
+  }
+  return tokens
+}
+
+const unquote = (value: string): string => value.replace(/^"(.*)"$/, '$1').trim()
+
+const resolveFieldValue = (field: QueryField, value: string): string | null => {
+  const key = optionKey(value)
+  if (field === 'mode') return JOB_MODES.find((mode) => optionKey(mode) === key) ?? null
+  if (field === 'experience') {
+    return JOB_EXPERIENCES.find((level) => optionKey(level) === key) ?? null
+  }
+  if (field === 'source') {
+    return listJobSources().find((source) => optionKey(source.id) === key)?.id ?? null
+  }
+  return value
+}
+
+const describeOptions = (field: QueryField): string | null => {
+  if (field === 'mode') return JOB_MODES.join(', ')
+  if (field === 'experience') return JOB_EXPERIENCES.join(', ')
+  if (field === 'source') return listJobSources().map((source) => source.id).join(', ')
+  return null
+}
+
+const TERM_PATTERN = /^([a-z]+)(>=|<=|:|>|<|=)(.*)$/i
+
+const parseTerm = (token: Token, errors: QueryError[]): QueryNode | null => {
+  const fail = (message: string) => {
+    errors.push({ token: token.text, start: token.start, message })
+    return null
+  }
+  const span = { start: token.start, end: token.start + token.text.length }
+
+  const match = token.text.match(TERM_PATTERN)
+  if (!match || token.text.startsWith('"')) {
+    return { kind: 'predicate', predicate: { kind: 'text', text: token.text }, span }
+  }
+  const [, rawName, operator, rawValue] = match
+  const name = rawName!.toLowerCase()
+  const value = unquote(rawValue!)
+  const metric = METRIC_ALIASES[name]
+  const field = FIELD_ALIASES[name]
+
+  if (metric) {
+    if (operator === ':') {
+      return fail(`Use a comparison with ${name}, for example ${METRIC_EXAMPLES[metric]}.`)
+    }
+    const amount = value.match(METRIC_UNITS[metric])
+    if (!amount) return fail(`"${value}" is not a valid ${name} value. Try ${METRIC_EXAMPLES[metric]}.`)
+    return {
+      kind: 'predicate',
+      predicate: {
+        kind: 'compare',
+        metric,
+        operator: operator as ComparisonOperator,
+        value: Number(amount[1]),
+      },
+      span,
+    }
+  }
+
+  if (!field) {
+    return fail(
+      `Unknown field "${name}". Use skill, mode, exp, company, title, location, source, status, salary, posted or match.`,
+    )
+  }
+  if (operator !== ':') return fail(`Use ${name}:value; comparisons only work with salary, posted and match.`)
+  if (!value) return fail(`${name}: needs a value.`)
+  const resolved = resolveFieldValue(field, value)
+  if (resolved === null) return fail(`"${value}" is not a valid ${name}. Use ${describeOptions(field)}.`)
+  return { kind: 'predicate', predicate: { kind: 'field', field, value: resolved }, span }
+}
+
+export const parseJobQuery = (input: string): JobQuery => {
+  const tokens = tokenizeQuery(input)
+  const errors: QueryError[] = []
+  let position = 0
+
+  const isOr = (token: Token | undefined) => token?.text === 'OR' || token?.text === '|'
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[position]
+    if (!token) return null
+    if (token.text === '-' || (token.text.startsWith('-') && token.text.length > 1)) {
+      if (token.text === '-') {
+        position += 1
+      } else {
+        tokens[position] = { text: token.text.slice(1), start: token.start + 1 }
+      }
+      const node = parseUnary()
+      return node ? { kind: 'not', node } : null
+    }
+    if (token.text === '(') {
+      position += 1
+      const nodes = parseSequence(true)
+      if (tokens[position]?.text === ')') {
+        position += 1
+      } else {
+        errors.push({ token: '(', start: token.start, message: 'Missing closing parenthesis.' })
+      }
+      return nodes.length > 0 ? { kind: 'and', nodes } : null
+    }
+    position += 1
+    if (token.text === ')') {
+      errors.push({ token: ')', start: token.start, message: 'Unexpected closing parenthesis.' })
+      return null
+    }
+    if (isOr(token)) {
+      errors.push({ token: token.text, start: token.start, message: 'OR needs a term on both sides.' })
+      return null
+    }
+    return parseTerm(token, errors)
+  }
+
+  const parseOr = (): QueryNode | null => {
+    const first = parseUnary()
+    const alternatives = first ? [first] : []
+    while (isOr(tokens[position])) {
+      const orToken = tokens[position]!
+      position += 1
+      const next = tokens[position]
+      if (!next || next.text === ')' || isOr(next)) {
+        errors.push({
+          token: orToken.text,
+          start: orToken.start,
+          message: 'OR needs a term on both sides.',
+        })
+        break
+      }
+      const node = parseUnary()
+      if (node) alternatives.push(node)
+    }
+    if (alternatives.length === 0) return null
+    return alternatives.length === 1 ? alternatives[0]! : { kind: 'or', nodes: alternatives }
+  }
+
+  const parseSequence = (nested: boolean): QueryNode[] => {
+    const nodes: QueryNode[] = []
+    while (position < tokens.length) {
+      if (nested && tokens[position]!.text === ')') break
+      const node = parseOr()
+      if (node) nodes.push(node)
+    }
+    return nodes
+  }
+
+  const nodes = parseSequence(false)
+  const searchText = nodes
+    .map((node) =>
+      node.kind === 'predicate' && node.predicate.kind === 'text' ? node.predicate.text : '',
+    )
+    .filter(Boolean)
+    .join(' ')
+
+  return { nodes, searchText, errors }
+}
+
+export type StandaloneQueryTerm = {
+  predicate: Exclude<QueryPredicate, { kind: 'text' }>
+  span: QuerySpan
+}
+
+const termKey = (predicate: StandaloneQueryTerm['predicate']): string =>
+  predicate.kind === 'field' ? predicate.field : `${predicate.metric}${predicate.operator}`
+
+export const findStandaloneTerms = (query: JobQuery): StandaloneQueryTerm[] => {
+  const terms = query.nodes.flatMap((node): StandaloneQueryTerm[] =>
+    node.kind === 'predicate' && node.predicate.kind !== 'text'
+      ? [{ predicate: node.predicate, span: node.span }]
+      : [],
+  )
+  const counts = new Map<string, number>()
+  terms.forEach(({ predicate }) =>
+    counts.set(termKey(predicate), (counts.get(termKey(predicate)) ?? 0) + 1),
+  )
+  return terms.filter(({ predicate }) => counts.get(termKey(predicate)) === 1)
+}
+
+export const removeQueryTerms = (input: string, terms: StandaloneQueryTerm[]): string =>
+  [...terms]
+    .sort((a, b) => b.span.start - a.span.start)
+    .reduce((text, { span }) => `${text.slice(0, span.start)} ${text.slice(span.end)}`, input)
+    .replace(/\s+/g, ' ')
+    .trim()
+
+const compare = (actual: number, operator: ComparisonOperator, expected: number): boolean => {
+  if (operator === '>=') return actual >= expected
+  if (operator === '<=') return actual <= expected
+  if (operator === '>') return actual > expected
+  if (operator === '<') return actual < expected
+  return actual === expected
+}
+
+const matchesSalary = (job: Job, operator: ComparisonOperator, lpa: number): boolean => {
+  if (!job.salary || job.salary.currency !== 'INR') return false
+  const { min, max } = annualizeSalary(job.salary)
+  const amount = lpa * LAKH
+  if (operator === '>=' || operator === '>') return compare(max, operator, amount)
+  if (operator === '<=' || operator === '<') return compare(min, operator, amount)
+  return min <= amount && amount <= max
+}
+
+const matchesText = (job: Job, text: string, notes: string): boolean => {
+  const needle = unquote(text).toLowerCase()
+  return [job.title, job.company, job.description, notes, ...job.skills].some((value) =>
+    value.toLowerCase().includes(needle),
+  )
+}
+
+const matchesPredicate = (
+  job: Job,
+  predicate: QueryPredicate,
+  context: JobQueryContext,
+): boolean => {
+  if (predicate.kind === 'text') return matchesText(job, predicate.text, context.notes)
+  if (predicate.kind === 'compare') {
+    if (predicate.metric === 'salary') return matchesSalary(job, predicate.operator, predicate.value)
+    if (predicate.metric === 'posted') {
+      return compare(daysSincePosted(job.postedAt), predicate.operator, predicate.value)
+    }
+    return compare(context.matchScore, predicate.operator, predicate.value)
+  }
+  const { field, value } = predicate
+  const lower = value.toLowerCase()
+  if (field === 'skill') {
+    return hasSkill(
+      expandSkills([...job.skills, ...(job.requiredSkills ?? []), ...(job.niceToHaveSkills ?? [])]),
+      value,
+    )
+  }
+  if (field === 'mode') return job.mode === value
+  if (field === 'experience') return job.experience === value
+  if (field === 'source') return job.source === value
+  if (field === 'company') return normalizeCompany(job.company).includes(normalizeCompany(value))
+  if (field === 'title') return job.title.toLowerCase().includes(lower)
+  if (field === 'location') return job.location.toLowerCase().includes(lower)
+  return optionKey(context.status) === optionKey(value)
+}
+
+const matchesNode = (job: Job, node: QueryNode, context: JobQueryContext): boolean => {
+  if (node.kind === 'predicate') return matchesPredicate(job, node.predicate, context)
+  if (node.kind === 'not') return !matchesNode(job, node.node, context)
+  if (node.kind === 'and') return node.nodes.every((child) => matchesNode(job, child, context))
+  return node.nodes.some((child) => matchesNode(job, child, context))
+}
+
+const isTopLevelText = (node: QueryNode): boolean =>
+  node.kind === 'predicate' && node.predicate.kind === 'text'
+
+export const matchesJobQuery = (job: Job, query: JobQuery, context: JobQueryContext): boolean =>
+  query.nodes
+    .filter((node) => !isTopLevelText(node))
+    .every((node) => matchesNode(job, node, context))
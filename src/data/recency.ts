@@ -0,0 +1,55 @@
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+
+const startOfDay = (date: Date): number =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+
+export const parseJobDate = (value: string): Date | null => {
+  const dateOnly = value.match(DATE_ONLY_PATTERN)
+  if (dateOnly) {
+    const [, yyyy, mm, dd] = dateOnly
+    return new Date(Number(yyyy), Number(mm) - 1, Number(dd))
+  }
+  const timestamp = Date.parse(value)
+  return Number.isNaN(timestamp) ? null : new Date(timestamp)
+}
+
+export const toDateKey = (date: Date): string => {
+  const yyyy = date.getFullYear()
+  const mm = String(date.getMonth() + 1).padStart(2, '0')
+  const dd = String(date.getDate()).padStart(2, '0')
+  return `${yyyy}-${mm}-${dd}`
+}
+
+export const postedAtFromDaysAgo = (daysAgo: number, now: Date = new Date()): string =>
+  toDateKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() - daysAgo))
+
+export const daysBetween = (from: Date, to: Date): number =>
+  Math.max(0, Math.round((startOfDay(to) - startOfDay(from)) / DAY_MS))
+
+export const daysSincePosted = (postedAt: string, now: Date = new Date()): number => {
+  const posted = parseJobDate(postedAt)
+  if (!posted) return Number.POSITIVE_INFINITY
+  return daysBetween(posted, now)
+}
+
+export const daysUntil = (value: string, now: Date = new Date()): number => {
+  const target = parseJobDate(value)
+  if (!target) return Number.NaN
+  return Math.round((startOfDay(target) - startOfDay(now)) / DAY_MS)
+}
+
+export const postedTimestamp = (postedAt: string): number =>
+  parseJobDate(postedAt)?.getTime() ?? 0
+
+export const isStale = (postedAt: string, maxAgeDays: number, now: Date = new Date()): boolean =>
+  maxAgeDays > 0 && daysSincePosted(postedAt, now) > maxAgeDays
+
+export const formatPosted = (postedAt: string, now: Date = new Date()) => {
+  const days = daysSincePosted(postedAt, now)
+  if (!Number.isFinite(days)) return 'Date unknown'
+  if (days === 0) return 'Today'
+  if (days === 1) return '1 day ago'
+  return `${days} days ago`
+}
@@ -0,0 +1,198 @@
+import type { Job } from './jobs'
+import { parseJobDate } from './recency'
+import { createWorkspaceId } from './workspace'
+
+export type ReminderKind = 'follow-up' | 'interview' | 'deadline'
+
+export type Reminder = {
+  id: string
+  jobId: number
+  kind: ReminderKind
+  dueAt: string
+  note?: string
+  createdAt: string
+  completedAt?: string
+  notifiedAt?: string
+  revision?: number
+  updatedAt?: string
+}
+
+export type ReminderGroups = {
+  overdue: Reminder[]
+  upcoming: Reminder[]
+}
+
+export const REMINDER_KINDS: { value: ReminderKind; label: string }[] = [
+  { value: 'follow-up', label: 'Follow up' },
+  { value: 'interview', label: 'Interview' },
+  { value: 'deadline', label: 'Application deadline' },
+]
+
+export const SNOOZE_OPTIONS: { label: string; minutes: number }[] = [
+  { label: '1 hour', minutes: 60 },
+  { label: '1 day', minutes: 24 * 60 },
+  { label: '1 week', minutes: 7 * 24 * 60 },
+]
+
+export const REMINDERS_STORAGE_KEY = 'jobTrackerReminders'
+
+export const FOLLOW_UP_AFTER_DAYS = 7
+
+export const UPCOMING_WINDOW_DAYS = 7
+
+const MINUTE_MS = 60 * 1000
+
+const HOUR_MS = 60 * MINUTE_MS
+
+const DAY_MS = 24 * HOUR_MS
+
+const REMINDER_HOUR = 9
+
+export const getReminderLabel = (kind: ReminderKind): string =>
+  REMINDER_KINDS.find((option) => option.value === kind)?.label ?? kind
+
+const atReminderHour = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate(), REMINDER_HOUR)
+
+export const suggestDueDate = (kind: ReminderKind, job: Job, now: Date = new Date()): Date => {
+  if (kind === 'deadline' && job.deadline) {
+    const deadline = parseJobDate(job.deadline)
+    if (deadline) {
+      const dayBefore = atReminderHour(new Date(deadline.getTime() - DAY_MS))
+      if (dayBefore.getTime() > now.getTime()) return dayBefore
+    }
+  }
+  if (kind === 'follow-up') {
+    return atReminderHour(new Date(now.getTime() + FOLLOW_UP_AFTER_DAYS * DAY_MS))
+  }
+  return atReminderHour(new Date(now.getTime() + DAY_MS))
+}
+
+export const createReminder = (
+  jobId: number,
+  kind: ReminderKind,
+  dueAt: Date,
+  note = '',
+  now: Date = new Date(),
+): Reminder => ({
+  id: createWorkspaceId(),
+  jobId,
+  kind,
+  dueAt: dueAt.toISOString(),
+  ...(note.trim() ? { note: note.trim() } : {}),
+  createdAt: now.toISOString(),
+})
+
+export const isOpenReminder = (reminder: Reminder): boolean => !reminder.completedAt
+
+export const hasOpenReminder = (reminders: Reminder[], jobId: number, kind: ReminderKind) =>
+  reminders.some(
+    (reminder) => isOpenReminder(reminder) && reminder.jobId === jobId && reminder.kind === kind,
+  )
+
+const byDueDate = (a: Reminder, b: Reminder): number => Date.parse(a.dueAt) - Date.parse(b.dueAt)
+
+export const groupReminders = (reminders: Reminder[], now: Date = new Date()): ReminderGroups => {
+  const open = reminders.filter(isOpenReminder).sort(byDueDate)
+  const horizon = now.getTime() + UPCOMING_WINDOW_DAYS * DAY_MS
+  return {
+    overdue: open.filter((reminder) => Date.parse(reminder.dueAt) <= now.getTime()),
+    upcoming: open.filter((reminder) => {
+      const due = Date.parse(reminder.dueAt)
+      return due > now.getTime() && due <= horizon
+    }),
+  }
+}
+
+export const getRemindersToNotify = (reminders: Reminder[], now: Date = new Date()): Reminder[] =>
+  reminders.filter(
+    (reminder) =>
+      isOpenReminder(reminder) &&
+      !reminder.notifiedAt &&
+      Date.parse(reminder.dueAt) <= now.getTime(),
+  )
+
+export const updateReminder = (
+  reminders: Reminder[],
+  id: string,
+  update: (reminder: Reminder) => Reminder,
+): Reminder[] => reminders.map((reminder) => (reminder.id === id ? update(reminder) : reminder))
+
+const reviseReminder = (reminder: Reminder, changes: Partial<Reminder>, now: Date): Reminder => ({
+  ...reminder,
+  ...changes,
+  revision: (reminder.revision ?? 0) + 1,
+  updatedAt: now.toISOString(),
+})
+
+export const completeReminder = (reminder: Reminder, now: Date = new Date()): Reminder =>
+  reviseReminder(reminder, { completedAt: now.toISOString() }, now)
+
+export const snoozeReminder = (
+  reminder: Reminder,
+  minutes: number,
+  now: Date = new Date(),
+): Reminder => {
+  const from = Math.max(now.getTime(), Date.parse(reminder.dueAt))
+  const snoozed = reviseReminder(
+    reminder,
+    { dueAt: new Date(from + minutes * MINUTE_MS).toISOString() },
+    now,
+  )
+  delete snoozed.notifiedAt
+  return snoozed
+}
+
+export const formatDueIn = (dueAt: string, now: Date = new Date()): string => {
+  const diff = Date.parse(dueAt) - now.getTime()
+  const distance = Math.abs(diff)
+  const [amount, unit] =
+    distance < HOUR_MS
+      ? [Math.max(1, Math.round(distance / MINUTE_MS)), 'minute']
+      : distance < DAY_MS
+        ? [Math.round(distance / HOUR_MS), 'hour']
+        : [Math.round(distance / DAY_MS), 'day']
+  const span = `${amount} ${unit}${amount === 1 ? '' : 's'}`
+  return diff < 0 ? `${span} overdue` : `in ${span}`
+}
+
+export const toDateTimeInputValue = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours(),
+  )}:${pad(date.getMinutes())}`
+}
+
+const REMINDER_KIND_VALUES = REMINDER_KINDS.map((option) => option.value)
+
+const isReminder = (value: unknown): value is Reminder => {
+  if (typeof value !== 'object' || value === null) return false
+  const { id, jobId, kind, dueAt, note, createdAt, completedAt, notifiedAt, revision, updatedAt } =
+    value as Partial<Reminder>
+  const isOptionalString = (field: unknown) => field === undefined || typeof field === 'string'
+  return (
+    typeof id === 'string' &&
+    typeof jobId === 'number' &&
+    REMINDER_KIND_VALUES.includes(kind as ReminderKind) &&
+    typeof dueAt === 'string' &&
+    !Number.isNaN(Date.parse(dueAt)) &&
+    typeof createdAt === 'string' &&
+    [note, completedAt, notifiedAt, updatedAt].every(isOptionalString) &&
+    (revision === undefined || (Number.isInteger(revision) && revision >= 0))
+  )
+}
+
+export const loadReminders = (): Reminder[] => {
+  const raw = window.localStorage.getItem(REMINDERS_STORAGE_KEY)
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    return Array.isArray(parsed) ? parsed.filter(isReminder) : []
+  } catch {
+    return []
+  }
+}
+
+export const saveReminders = (reminders: Reminder[]) => {
+  window.localStorage.setItem(REMINDERS_STORAGE_KEY, JSON.stringify(reminders))
+}
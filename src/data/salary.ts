@@ -0,0 +1,104 @@
+export type SalaryCurrency = 'INR' | 'USD'
+
+export type SalaryPeriod = 'monthly' | 'annual'
+
+export type JobSalary = {
+  min: number
+  max: number
+  currency: SalaryCurrency
+  period: SalaryPeriod
+}
+
+export const LAKH = 100_000
+
+const AMOUNT_PATTERN =
+  /(\d+(?:,\d{2,3})*(?:\.\d+)?)\s*(lpa|lakhs?|lacs?|l|crores?|cr|k)?(?![a-z])/gi
+
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  k: 1_000,
+  l: 100_000,
+  lpa: 100_000,
+  lakh: 100_000,
+  lakhs: 100_000,
+  lac: 100_000,
+  lacs: 100_000,
+  cr: 10_000_000,
+  crore: 10_000_000,
+  crores: 10_000_000,
+}
+
+const MONTHLY_PATTERN = /(\/\s*(month|mo)\b|per\s+month|\bpm\b|\bmonthly\b|\bstipend\b)/i
+
+const ANNUAL_PATTERN = /(\blpa\b|\/\s*(year|yr|annum)\b|per\s+(year|annum)|\bp\.?a\.?\b|\bannual\b|\bctc\b)/i
+
+const detectCurrency = (value: string): SalaryCurrency =>
+  /\$|\busd\b/i.test(value) ? 'USD' : 'INR'
+
+const detectPeriod = (
+  value: string,
+  units: string[],
+  amounts: number[],
+  currency: SalaryCurrency,
+): SalaryPeriod | null => {
+  if (MONTHLY_PATTERN.test(value)) return 'monthly'
+  if (ANNUAL_PATTERN.test(value)) return 'annual'
+  if (units.some((unit) => UNIT_MULTIPLIERS[unit] >= LAKH)) return 'annual'
+  if (currency === 'USD') return 'annual'
+  if (Math.min(...amounts) >= LAKH) return 'annual'
+  return null
+}
+
+export const parseSalaryRange = (value: string): JobSalary | null => {
+  const matches = Array.from(value.matchAll(AMOUNT_PATTERN)).slice(0, 2)
+  if (matches.length === 0) return null
+
+  const units = matches.map((match) => (match[2] ?? '').toLowerCase())
+  const trailingUnit = units[units.length - 1] ?? ''
+  const amounts = matches.map((match, index) => {
+    const base = Number.parseFloat((match[1] ?? '').replace(/,/g, ''))
+    const unit = units[index] || trailingUnit
+    return base * (UNIT_MULTIPLIERS[unit] ?? 1)
+  })
+  if (amounts.some((amount) => !Number.isFinite(amount) || amount <= 0)) return null
+
+  const currency = detectCurrency(value)
+  const period = detectPeriod(value, units, amounts, currency)
+  if (!period) return null
+
+  return {
+    min: Math.min(...amounts),
+    max: Math.max(...amounts),
+    currency,
+    period,
+  }
+}
+
+export const annualizeSalary = (salary: JobSalary): { min: number; max: number } => {
+  const factor = salary.period === 'monthly' ? 12 : 1
+  return { min: salary.min * factor, max: salary.max * factor }
+}
+
+export const formatAnnualSalary = (salary: JobSalary): string => {
+  const { min, max } = annualizeSalary(salary)
+  if (salary.currency === 'USD') {
+    const toK = (amount: number) => `$${Math.round(amount / 1000)}k`
+    return min === max ? `${toK(min)}/yr` : `${toK(min)}–${toK(max)}/yr`
+  }
+  const toLakh = (amount: number) => Number((amount / LAKH).toFixed(1)).toString()
+  return min === max ? `${toLakh(min)} LPA` : `${toLakh(min)}–${toLakh(max)} LPA`
+}
+
+export const salaryOverlapsLpaRange = (
+  salary: JobSalary,
+  minLpa: number | null,
+  maxLpa: number | null,
+): boolean => {
+  if (salary.currency !== 'INR') return false
+  const { min, max } = annualizeSalary(salary)
+  if (minLpa !== null && max < minLpa * LAKH) return false
+  if (maxLpa !== null && min > maxLpa * LAKH) return false
+  return true
+}
+
+export const isBelowLpaFloor = (salary: JobSalary, floorLpa: number): boolean =>
+  salary.currency === 'INR' && annualizeSalary(salary).max < floorLpa * LAKH
@@ -0,0 +1,313 @@
+import {
+  defaultCandidateProfile,
+  findEligibilityIssues,
+  type CandidateProfile,
+} from './eligibility'
+import { defaultExclusionRules, findExclusionMatches, type ExclusionRules } from './exclusions'
+import { computeExperienceFit, type ExperienceRange } from './experience'
+import type { Job, JobMode } from './jobs'
+import { daysSincePosted, formatPosted } from './recency'
+import { isBelowLpaFloor, salaryOverlapsLpaRange } from './salary'
+import { computeSkillOverlap } from './skills'
+import { getSourceDisplayName, getSourceTrustWeight } from './sources'
+
+export type ScoringFactor =
+  | 'title'
+  | 'description'
+  | 'location'
+  | 'mode'
+  | 'experience'
+  | 'skills'
+  | 'salary'
+  | 'recency'
+  | 'source'
+
+export type ScoringWeights = Record<ScoringFactor, number>
+
+export type Preferences = {
+  roleKeywords: string
+  preferredLocations: string[]
+  preferredModes: JobMode[]
+  experienceLevel: ExperienceRange | null
+  skills: string
+  expectedSalaryMin: number | null
+  expectedSalaryMax: number | null
+  hideBelowSalaryFloor: boolean
+  maxJobAgeDays: number
+  minMatchScore: number
+  scoringWeights: ScoringWeights
+  exclusions: ExclusionRules
+  candidateProfile: CandidateProfile
+  hideIneligible: boolean
+}
+
+export const SCORING_FACTORS: { factor: ScoringFactor; label: string }[] = [
+  { factor: 'title', label: 'Role keyword in title' },
+  { factor: 'description', label: 'Role keyword in description' },
+  { factor: 'location', label: 'Preferred location' },
+  { factor: 'mode', label: 'Preferred mode' },
+  { factor: 'experience', label: 'Experience level' },
+  { factor: 'skills', label: 'Skill overlap' },
+  { factor: 'salary', label: 'Expected salary' },
+  { factor: 'recency', label: 'Posted in the last 2 days' },
+  { factor: 'source', label: 'Source trust' },
+]
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  title: 20,
+  description: 10,
+  location: 15,
+  mode: 10,
+  experience: 10,
+  skills: 15,
+  salary: 10,
+  recency: 5,
+  source: 5,
+}
+
+export const SCORING_PRESETS: { id: string; label: string; weights: ScoringWeights }[] = [
+  { id: 'balanced', label: 'Balanced', weights: DEFAULT_SCORING_WEIGHTS },
+  {
+    id: 'skills-first',
+    label: 'Skills first',
+    weights: {
+      title: 15,
+      description: 5,
+      location: 10,
+      mode: 5,
+      experience: 10,
+      skills: 40,
+      salary: 5,
+      recency: 5,
+      source: 5,
+    },
+  },
+  {
+    id: 'location-first',
+    label: 'Location first',
+    weights: {
+      title: 15,
+      description: 5,
+      location: 35,
+      mode: 20,
+      experience: 5,
+      skills: 10,
+      salary: 5,
+      recency: 0,
+      source: 5,
+    },
+  },
+  {
+    id: 'compensation-first',
+    label: 'Compensation first',
+    weights: {
+      title: 15,
+      description: 5,
+      location: 10,
+      mode: 5,
+      experience: 10,
+      skills: 10,
+      salary: 35,
+      recency: 5,
+      source: 5,
+    },
+  },
+]
+
+const MAX_SOURCE_TRUST = 5
+
+export const defaultPreferences: Preferences = {
+  roleKeywords: '',
+  preferredLocations: [],
+  preferredModes: [],
+  experienceLevel: null,
+  skills: '',
+  expectedSalaryMin: null,
+  expectedSalaryMax: null,
+  hideBelowSalaryFloor: false,
+  maxJobAgeDays: 30,
+  minMatchScore: 40,
+  scoringWeights: DEFAULT_SCORING_WEIGHTS,
+  exclusions: defaultExclusionRules,
+  candidateProfile: defaultCandidateProfile,
+  hideIneligible: false,
+}
+
+export const splitCommaSeparated = (value: string): string[] =>
+  value
+    .split(',')
+    .map((token) => token.trim().toLowerCase())
+    .filter(Boolean)
+
+export type MatchFactorResult = {
+  factor: ScoringFactor
+  label: string
+  active: boolean
+  points: number
+  maxPoints: number
+  matched: string[]
+  missed: string[]
+}
+
+export type MatchBreakdown = {
+  score: number
+  factors: MatchFactorResult[]
+  exclusions: string[]
+  penalty: number
+}
+
+const REQUIRED_SKILL_PENALTY = 5
+
+const MAX_REQUIRED_SKILL_PENALTY = 15
+
+export const computeMatchBreakdown = (job: Job, preferences: Preferences): MatchBreakdown => {
+  const weights = preferences.scoringWeights
+  const factors: MatchFactorResult[] = []
+  const addFactor = (
+    factor: ScoringFactor,
+    result: Omit<MatchFactorResult, 'factor' | 'label' | 'maxPoints'>,
+  ) => {
+    const label = SCORING_FACTORS.find((entry) => entry.factor === factor)?.label ?? factor
+    factors.push({ factor, label, maxPoints: weights[factor], ...result })
+  }
+
+  const roleKeywords = splitCommaSeparated(preferences.roleKeywords)
+  const prefSkills = splitCommaSeparated(preferences.skills)
+
+  const titleLower = job.title.toLowerCase()
+  const descriptionLower = job.description.toLowerCase()
+
+  const titleHits = roleKeywords.filter((kw) => titleLower.includes(kw))
+  addFactor('title', {
+    active: roleKeywords.length > 0,
+    points: titleHits.length > 0 ? weights.title : 0,
+    matched: titleHits,
+    missed: titleHits.length > 0 ? [] : roleKeywords,
+  })
+
+  const descriptionHits = roleKeywords.filter((kw) => descriptionLower.includes(kw))
+  addFactor('description', {
+    active: roleKeywords.length > 0,
+    points: descriptionHits.length > 0 ? weights.description : 0,
+    matched: descriptionHits,
+    missed: descriptionHits.length > 0 ? [] : roleKeywords,
+  })
+
+  const locationHit = preferences.preferredLocations.includes(job.location)
+  addFactor('location', {
+    active: preferences.preferredLocations.length > 0,
+    points: preferences.preferredLocations.length > 0 && locationHit ? weights.location : 0,
+    matched: locationHit ? [job.location] : [],
+    missed: locationHit ? [] : [job.location],
+  })
+
+  const modeHit = preferences.preferredModes.includes(job.mode)
+  addFactor('mode', {
+    active: preferences.preferredModes.length > 0,
+    points: preferences.preferredModes.length > 0 && modeHit ? weights.mode : 0,
+    matched: modeHit ? [job.mode] : [],
+    missed: modeHit ? [] : [job.mode],
+  })
+
+  const experienceFit = preferences.experienceLevel
+    ? computeExperienceFit(job.experience, preferences.experienceLevel)
+    : 0
+  addFactor('experience', {
+    active: preferences.experienceLevel !== null,
+    points: Math.round(weights.experience * experienceFit),
+    matched: experienceFit > 0 ? [job.experience] : [],
+    missed:
+      experienceFit > 0
+        ? []
+        : [experienceFit < 0 ? `${job.experience} (above your level)` : job.experience],
+  })
+
+  const overlap = computeSkillOverlap(job, prefSkills)
+  const skillPenalty = Math.round(
+    (Math.min(
+      MAX_REQUIRED_SKILL_PENALTY,
+      REQUIRED_SKILL_PENALTY * overlap.missingRequired.length,
+    ) *
+      weights.skills) /
+      DEFAULT_SCORING_WEIGHTS.skills,
+  )
+  addFactor('skills', {
+    active: prefSkills.length > 0,
+    points:
+      prefSkills.length > 0
+        ? Math.round(weights.skills * (0.6 * overlap.jobCoverage + 0.4 * overlap.userCoverage)) -
+          skillPenalty
+        : 0,
+    matched: overlap.matched,
+    missed: overlap.missing.map((skill) =>
+      overlap.missingRequired.includes(skill) ? `${skill} (required)` : skill,
+    ),
+  })
+
+  const hasSalaryPreference =
+    preferences.expectedSalaryMin !== null || preferences.expectedSalaryMax !== null
+  const salaryHit =
+    hasSalaryPreference &&
+    !!job.salary &&
+    salaryOverlapsLpaRange(
+      job.salary,
+      preferences.expectedSalaryMin,
+      preferences.expectedSalaryMax,
+    )
+  addFactor('salary', {
+    active: hasSalaryPreference,
+    points: salaryHit ? weights.salary : 0,
+    matched: salaryHit ? [job.salaryRange] : [],
+    missed: salaryHit ? [] : [job.salaryRange],
+  })
+
+  const postedDays = daysSincePosted(job.postedAt)
+  const postedLabel = formatPosted(job.postedAt)
+  addFactor('recency', {
+    active: true,
+    points: postedDays <= 2 ? weights.recency : 0,
+    matched: postedDays <= 2 ? [postedLabel] : [],
+    missed: postedDays <= 2 ? [] : [postedLabel],
+  })
+
+  const trust = Math.min(getSourceTrustWeight(job.source), MAX_SOURCE_TRUST)
+  const sourceName = getSourceDisplayName(job.source)
+  addFactor('source', {
+    active: true,
+    points: Math.round((weights.source * trust) / MAX_SOURCE_TRUST),
+    matched: trust > 0 ? [sourceName] : [],
+    missed: trust > 0 ? [] : [sourceName],
+  })
+
+  const exclusions = findExclusionMatches(job, preferences.exclusions)
+  const penalty =
+    preferences.exclusions.action === 'penalize' && exclusions.length > 0
+      ? preferences.exclusions.penalty
+      : 0
+
+  const total = factors.reduce((sum, entry) => sum + entry.points, 0)
+  return {
+    score: Math.max(0, Math.min(total, 100) - penalty),
+    factors,
+    exclusions,
+    penalty,
+  }
+}
+
+export const computeMatchScore = (job: Job, preferences: Preferences): number =>
+  computeMatchBreakdown(job, preferences).score
+
+export const isHiddenBySalaryFloor = (job: Job, preferences: Preferences): boolean => {
+  if (!preferences.hideBelowSalaryFloor || preferences.expectedSalaryMin === null || !job.salary) {
+    return false
+  }
+  return isBelowLpaFloor(job.salary, preferences.expectedSalaryMin)
+}
+
+export const isHiddenByRules = (job: Job, preferences: Preferences): boolean =>
+  preferences.exclusions.action === 'hide' &&
+  findExclusionMatches(job, preferences.exclusions).length > 0
+
+export const isHiddenByEligibility = (job: Job, preferences: Preferences): boolean =>
+  preferences.hideIneligible &&
+  findEligibilityIssues(job, preferences.candidateProfile).length > 0
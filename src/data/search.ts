@@ -0,0 +1,271 @@
+import type { Job } from './jobs'
+import { canonicalizeSkill, getSkillAncestors, SKILL_TAXONOMY } from './skills'
+
+export type SearchField = 'title' | 'company' | 'location' | 'skills' | 'description' | 'notes'
+
+export const SEARCH_FIELDS: SearchField[] = [
+  'title',
+  'company',
+  'location',
+  'skills',
+  'description',
+  'notes',
+]
+
+export const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 3,
+  company: 2,
+  location: 2,
+  skills: 2,
+  description: 1,
+  notes: 1,
+}
+
+type Posting = {
+  jobId: number
+  field: SearchField
+  positions: number[]
+}
+
+export type SearchIndex = {
+  postings: Map<string, Posting[]>
+  fieldLengths: Map<number, Record<SearchField, number>>
+  averageFieldLengths: Record<SearchField, number>
+  documentCount: number
+}
+
+export type SearchQuery = {
+  terms: string[]
+  phrases: string[][]
+}
+
+const BM25_K1 = 1.2
+
+const BM25_B = 0.75
+
+export type TermMatch = 'exact' | 'prefix' | 'fuzzy'
+
+const MATCH_WEIGHTS: Record<TermMatch, number> = {
+  exact: 1,
+  prefix: 0.8,
+  fuzzy: 0.6,
+}
+
+const MIN_PREFIX_LENGTH = 2
+
+const maxEditsFor = (term: string): number => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0)
+
+export const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost)
+      rowMin = Math.min(rowMin, current[j]!)
+    }
+    if (rowMin > limit) return limit + 1
+    previous = current
+  }
+  return previous[b.length]!
+}
+
+export const matchTerm = (term: string, token: string): TermMatch | null => {
+  if (token === term) return 'exact'
+  if (term.length >= MIN_PREFIX_LENGTH && token.startsWith(term)) return 'prefix'
+  const maxEdits = maxEditsFor(term)
+  if (maxEdits > 0 && editDistance(term, token, maxEdits) <= maxEdits) return 'fuzzy'
+  return null
+}
+
+export const tokenizeText = (value: string): string[] =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9+#.\s]/g, ' ')
+    .split(/\s+/)
+    .map((token) => token.replace(/^\.+|\.+$/g, ''))
+    .filter(Boolean)
+
+const emptyFieldLengths = (): Record<SearchField, number> => ({
+  title: 0,
+  company: 0,
+  location: 0,
+  skills: 0,
+  description: 0,
+  notes: 0,
+})
+
+const fieldText = (job: Job, field: SearchField, notes: Map<number, string>): string => {
+  if (field === 'notes') return notes.get(job.id) ?? ''
+  if (field !== 'skills') return job[field]
+  const skills = [...job.skills, ...(job.requiredSkills ?? []), ...(job.niceToHaveSkills ?? [])]
+  return Array.from(new Set([...skills, ...skills.flatMap(getSkillAncestors)])).join(' ')
+}
+
+export const buildSearchIndex = (
+  jobs: Job[],
+  notes: Map<number, string> = new Map(),
+): SearchIndex => {
+  const postings = new Map<string, Posting[]>()
+  const fieldLengths = new Map<number, Record<SearchField, number>>()
+  const totals = emptyFieldLengths()
+
+  jobs.forEach((job) => {
+    const lengths = emptyFieldLengths()
+    SEARCH_FIELDS.forEach((field) => {
+      const tokens = tokenizeText(fieldText(job, field, notes))
+      lengths[field] = tokens.length
+      totals[field] += tokens.length
+      const positionsByToken = new Map<string, number[]>()
+      tokens.forEach((token, position) => {
+        positionsByToken.set(token, [...(positionsByToken.get(token) ?? []), position])
+      })
+      positionsByToken.forEach((positions, token) => {
+        postings.set(token, [...(postings.get(token) ?? []), { jobId: job.id, field, positions }])
+      })
+    })
+    fieldLengths.set(job.id, lengths)
+  })
+
+  const documentCount = jobs.length
+  const averageFieldLengths = Object.fromEntries(
+    SEARCH_FIELDS.map((field) => [field, documentCount > 0 ? totals[field] / documentCount : 0]),
+  ) as Record<SearchField, number>
+
+  return { postings, fieldLengths, averageFieldLengths, documentCount }
+}
+
+const queryTokens = (value: string): string[] => tokenizeText(canonicalizeSkill(value))
+
+export const parseSearchQuery = (query: string): SearchQuery => {
+  const phrases: string[][] = []
+  const rest = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const tokens = tokenizeText(phrase)
+    if (tokens.length > 1) phrases.push(tokens)
+    else if (tokens.length === 1) return ` ${tokens[0]} `
+    return ' '
+  })
+  const terms = rest.split(/\s+/).filter(Boolean).flatMap(queryTokens)
+  return { terms, phrases }
+}
+
+export const isEmptySearchQuery = ({ terms, phrases }: SearchQuery): boolean =>
+  terms.length === 0 && phrases.length === 0
+
+const expandTerm = (index: SearchIndex, term: string): Map<string, number> => {
+  if (index.postings.has(term)) return new Map([[term, MATCH_WEIGHTS.exact]])
+  const expansions = new Map<string, number>()
+  index.postings.forEach((_, token) => {
+    const match = matchTerm(term, token)
+    if (match) expansions.set(token, MATCH_WEIGHTS[match])
+  })
+  return expansions
+}
+
+export const expandSearchQuery = (index: SearchIndex, query: SearchQuery): Set<string> =>
+  new Set([
+    ...query.terms.flatMap((term) => Array.from(expandTerm(index, term).keys())),
+    ...query.phrases.flat(),
+  ])
+
+const scoreToken = (index: SearchIndex, term: string): Map<number, number> => {
+  const scores = new Map<number, number>()
+  const termPostings = index.postings.get(term) ?? []
+  const documentFrequency = new Set(termPostings.map((posting) => posting.jobId)).size
+  if (documentFrequency === 0) return scores
+  const idf = Math.log(1 + (index.documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5))
+
+  termPostings.forEach(({ jobId, field, positions }) => {
+    const length = index.fieldLengths.get(jobId)?.[field] ?? 0
+    const average = index.averageFieldLengths[field] || 1
+    const tf = positions.length
+    const weight =
+      (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * length) / average))
+    scores.set(jobId, (scores.get(jobId) ?? 0) + idf * FIELD_BOOSTS[field] * weight)
+  })
+  return scores
+}
+
+const matchesPhrase = (index: SearchIndex, jobId: number, phrase: string[]): boolean =>
+  SEARCH_FIELDS.some((field) => {
+    const positionLists = phrase.map(
+      (token) =>
+        index.postings
+          .get(token)
+          ?.find((posting) => posting.jobId === jobId && posting.field === field)?.positions ??
+        [],
+    )
+    return positionLists[0]!.some((start) =>
+      positionLists.every((positions, offset) => positions.includes(start + offset)),
+    )
+  })
+
+const scoreTerm = (index: SearchIndex, term: string): Map<number, number> => {
+  const scores = new Map<number, number>()
+  expandTerm(index, term).forEach((weight, token) => {
+    scoreToken(index, token).forEach((score, jobId) => {
+      scores.set(jobId, Math.max(scores.get(jobId) ?? 0, score * weight))
+    })
+  })
+  return scores
+}
+
+export const searchJobs = (index: SearchIndex, query: SearchQuery): Map<number, number> => {
+  const termScores = [
+    ...query.terms.map((term) => scoreTerm(index, term)),
+    ...query.phrases.flat().map((token) => scoreToken(index, token)),
+  ]
+  if (termScores.length === 0) return new Map()
+
+  const [first, ...others] = termScores
+  const results = new Map<number, number>()
+  first!.forEach((score, jobId) => {
+    if (!others.every((scores) => scores.has(jobId))) return
+    if (!query.phrases.every((phrase) => matchesPhrase(index, jobId, phrase))) return
+    results.set(
+      jobId,
+      others.reduce((total, scores) => total + scores.get(jobId)!, score),
+    )
+  })
+  return results
+}
+
+export const findHighlightRanges = (text: string, tokens: Set<string>): [number, number][] => {
+  if (tokens.size === 0) return []
+  const ranges: [number, number][] = []
+  const pattern = /[A-Za-z0-9+#.]+/g
+  let match = pattern.exec(text)
+  while (match) {
+    const raw = match[0]
+    const leading = raw.length - raw.replace(/^\.+/, '').length
+    const token = raw.replace(/^\.+|\.+$/g, '')
+    if (token && tokens.has(token.toLowerCase())) {
+      ranges.push([match.index + leading, match.index + leading + token.length])
+    }
+    match = pattern.exec(text)
+  }
+  return ranges
+}
+
+const matchesAllTerms = (value: string, query: string): boolean => {
+  const terms = tokenizeText(query)
+  const tokens = tokenizeText(value)
+  return terms.every((term) => tokens.some((token) => matchTerm(term, token) !== null))
+}
+
+export const fuzzyFilterOptions = (options: string[], query: string): string[] =>
+  query.trim() ? options.filter((option) => matchesAllTerms(option, query)) : options
+
+export const suggestSkills = (query: string, exclude: string[], limit: number): string[] => {
+  if (!query.trim()) return []
+  const excluded = new Set(exclude.map((skill) => canonicalizeSkill(skill)))
+  return SKILL_TAXONOMY.filter(
+    ({ name, aliases = [] }) =>
+      !excluded.has(name) &&
+      [name, ...aliases].some((candidate) => matchesAllTerms(candidate, query)),
+  )
+    .map(({ name }) => name)
+    .slice(0, limit)
+}
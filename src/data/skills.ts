@@ -0,0 +1,152 @@
+export type SkillDefinition = {
+  name: string
+  aliases?: string[]
+  parent?: string
+}
+
+export const SKILL_TAXONOMY: SkillDefinition[] = [
+  { name: 'Java', aliases: ['core java', 'java se', 'j2ee'] },
+  { name: 'Spring', aliases: ['spring framework'], parent: 'Java' },
+  { name: 'Spring Boot', aliases: ['springboot'], parent: 'Spring' },
+  { name: 'Hibernate', aliases: ['jpa'], parent: 'Java' },
+  { name: 'JavaScript', aliases: ['js', 'ecmascript', 'es6'] },
+  { name: 'TypeScript', aliases: ['ts'], parent: 'JavaScript' },
+  { name: 'React', aliases: ['reactjs', 'react.js', 'react js'], parent: 'JavaScript' },
+  { name: 'Redux', aliases: ['redux toolkit', 'rtk'], parent: 'React' },
+  { name: 'React Query', aliases: ['tanstack query'], parent: 'React' },
+  { name: 'Next.js', aliases: ['nextjs', 'next js'], parent: 'React' },
+  { name: 'Angular', aliases: ['angularjs', 'angular.js'], parent: 'TypeScript' },
+  { name: 'Node.js', aliases: ['node', 'nodejs', 'node js'], parent: 'JavaScript' },
+  { name: 'Express', aliases: ['expressjs', 'express.js'], parent: 'Node.js' },
+  { name: 'NestJS', aliases: ['nest', 'nest.js'], parent: 'Node.js' },
+  { name: 'HTML', aliases: ['html5'] },
+  { name: 'CSS', aliases: ['css3'] },
+  { name: 'SCSS', aliases: ['sass'], parent: 'CSS' },
+  { name: 'Tailwind CSS', aliases: ['tailwind', 'tailwindcss'], parent: 'CSS' },
+  { name: 'CSS Modules', parent: 'CSS' },
+  { name: 'Styled Components', aliases: ['styled-components'], parent: 'CSS' },
+  { name: 'Python', aliases: ['python3', 'py'] },
+  { name: 'Django', parent: 'Python' },
+  { name: 'Flask', parent: 'Python' },
+  { name: 'FastAPI', aliases: ['fast api'], parent: 'Python' },
+  { name: 'Pandas', parent: 'Python' },
+  { name: 'Go', aliases: ['golang'] },
+  { name: 'C#', aliases: ['csharp', 'c sharp'] },
+  { name: '.NET', aliases: ['dotnet', 'asp.net', '.net core'], parent: 'C#' },
+  { name: 'SQL', aliases: ['rdbms'] },
+  { name: 'MySQL', aliases: ['my sql'], parent: 'SQL' },
+  { name: 'PostgreSQL', aliases: ['postgres', 'postgresql', 'psql'], parent: 'SQL' },
+  { name: 'SQL Server', aliases: ['mssql', 'ms sql'], parent: 'SQL' },
+  { name: 'MongoDB', aliases: ['mongo'] },
+  { name: 'Redis' },
+  { name: 'Kafka', aliases: ['apache kafka'] },
+  { name: 'Kubernetes', aliases: ['k8s'] },
+  { name: 'Microservices', aliases: ['microservice architecture'] },
+  { name: 'Distributed Systems' },
+  { name: 'REST APIs', aliases: ['rest', 'rest api', 'restful', 'restful apis', 'apis', 'api'] },
+  { name: 'Data Structures', aliases: ['dsa', 'data structures and algorithms', 'ds'] },
+  { name: 'Algorithms', aliases: ['algo', 'algos'] },
+  { name: 'Excel', aliases: ['ms excel', 'microsoft excel'] },
+  { name: 'Power BI', aliases: ['powerbi'] },
+  { name: 'Tableau' },
+  { name: 'Looker Studio', aliases: ['google data studio', 'data studio'] },
+  { name: 'ETL' },
+  { name: 'Manual Testing', aliases: ['qa', 'software testing'] },
+  { name: 'Test Cases', aliases: ['test case design'], parent: 'Manual Testing' },
+  { name: 'API Testing', parent: 'Manual Testing' },
+  { name: 'Selenium', aliases: ['selenium webdriver'], parent: 'Automation Basics' },
+  { name: 'Automation Basics', aliases: ['test automation', 'automation testing'] },
+  { name: 'Testing Library', aliases: ['react testing library', 'rtl'], parent: 'React' },
+  { name: 'Postman' },
+  { name: 'TestRail' },
+  { name: 'JIRA' },
+]
+
+const skillKey = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, ' ')
+
+const canonicalByKey = new Map<string, string>()
+const parentByName = new Map<string, string>()
+
+SKILL_TAXONOMY.forEach(({ name, aliases = [], parent }) => {
+  canonicalByKey.set(skillKey(name), name)
+  aliases.forEach((alias) => canonicalByKey.set(skillKey(alias), name))
+  if (parent) parentByName.set(name, parent)
+})
+
+export const canonicalizeSkill = (value: string): string =>
+  canonicalByKey.get(skillKey(value)) ?? value.trim()
+
+export const canonicalizeSkills = (values: string[]): string[] =>
+  Array.from(new Set(values.map(canonicalizeSkill).filter(Boolean)))
+
+export const getSkillAncestors = (skill: string): string[] => {
+  const ancestors: string[] = []
+  let parent = parentByName.get(canonicalizeSkill(skill))
+  while (parent && !ancestors.includes(parent)) {
+    ancestors.push(parent)
+    parent = parentByName.get(parent)
+  }
+  return ancestors
+}
+
+export const hasSubSkills = (skill: string): boolean =>
+  Array.from(parentByName.values()).includes(canonicalizeSkill(skill))
+
+export const expandSkills = (values: string[]): Set<string> => {
+  const expanded = new Set<string>()
+  canonicalizeSkills(values).forEach((skill) => {
+    expanded.add(skillKey(skill))
+    getSkillAncestors(skill).forEach((ancestor) => expanded.add(skillKey(ancestor)))
+  })
+  return expanded
+}
+
+export const hasSkill = (skills: Set<string>, skill: string): boolean =>
+  skills.has(skillKey(canonicalizeSkill(skill)))
+
+export type SkillRequirements = {
+  skills: string[]
+  requiredSkills?: string[]
+  niceToHaveSkills?: string[]
+}
+
+export type SkillOverlap = {
+  matched: string[]
+  missing: string[]
+  missingRequired: string[]
+  jobCoverage: number
+  userCoverage: number
+}
+
+const REQUIRED_SKILL_WEIGHT = 2
+
+export const computeSkillOverlap = (
+  job: SkillRequirements,
+  userSkillValues: string[],
+): SkillOverlap => {
+  const userSkills = canonicalizeSkills(userSkillValues)
+  const userExpanded = expandSkills(userSkills)
+  const required = new Set(canonicalizeSkills(job.requiredSkills ?? []))
+  const jobSkills = canonicalizeSkills([
+    ...job.skills,
+    ...(job.requiredSkills ?? []),
+    ...(job.niceToHaveSkills ?? []),
+  ])
+
+  const matched = jobSkills.filter((skill) => hasSkill(userExpanded, skill))
+  const missing = jobSkills.filter((skill) => !matched.includes(skill))
+  const weightOf = (skill: string) => (required.has(skill) ? REQUIRED_SKILL_WEIGHT : 1)
+  const totalWeight = jobSkills.reduce((sum, skill) => sum + weightOf(skill), 0)
+  const matchedWeight = matched.reduce((sum, skill) => sum + weightOf(skill), 0)
+
+  const jobExpanded = expandSkills(jobSkills)
+  const usedUserSkills = userSkills.filter((skill) => hasSkill(jobExpanded, skill))
+
+  return {
+    matched,
+    missing,
+    missingRequired: missing.filter((skill) => required.has(skill)),
+    jobCoverage: totalWeight > 0 ? matchedWeight / totalWeight : 0,
+    userCoverage: userSkills.length > 0 ? usedUserSkills.length / userSkills.length : 0,
+  }
+}
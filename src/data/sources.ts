@@ -0,0 +1,135 @@
+import type { RawJobRecord } from './ingest'
+
+export type JobSourceDefinition = {
+  id: string
+  displayName: string
+  badgeClassName: string
+  trustWeight: number
+  parseRecord: (raw: RawJobRecord) => RawJobRecord
+}
+
+const renameFields =
+  (fieldMap: Record<string, string>) =>
+  (raw: RawJobRecord): RawJobRecord => {
+    const mapped: RawJobRecord = { ...raw }
+    Object.entries(fieldMap).forEach(([from, to]) => {
+      if (raw[from] !== undefined && mapped[to] === undefined) {
+        mapped[to] = raw[from]
+      }
+      delete mapped[from]
+    })
+    return mapped
+  }
+
+const identity = (raw: RawJobRecord): RawJobRecord => raw
+
+const registry = new Map<string, JobSourceDefinition>()
+
+export const registerJobSource = (definition: JobSourceDefinition) => {
+  registry.set(definition.id, definition)
+}
+
+export const getJobSource = (id: string): JobSourceDefinition | undefined => registry.get(id)
+
+export const listJobSources = (): JobSourceDefinition[] => Array.from(registry.values())
+
+export const isRegisteredSource = (id: unknown): id is string =>
+  typeof id === 'string' && registry.has(id)
+
+export const getSourceDisplayName = (id: string): string =>
+  registry.get(id)?.displayName ?? id
+
+export const getSourceTrustWeight = (id: string): number => registry.get(id)?.trustWeight ?? 0
+
+registerJobSource({
+  id: 'LinkedIn',
+  displayName: 'LinkedIn',
+  badgeClassName: 'kpbs-badge--source-linkedin',
+  trustWeight: 5,
+  parseRecord: renameFields({
+    jobTitle: 'title',
+    companyName: 'company',
+    formattedLocation: 'location',
+    workplaceType: 'mode',
+    seniorityLevel: 'experience',
+    jobUrl: 'applyUrl',
+    listedAt: 'postedAt',
+    expireAt: 'deadline',
+  }),
+})
+
+registerJobSource({
+  id: 'Naukri',
+  displayName: 'Naukri',
+  badgeClassName: 'kpbs-badge--source-naukri',
+  trustWeight: 3,
+  parseRecord: renameFields({
+    companyName: 'company',
+    placeholders: 'location',
+    tagsAndSkills: 'skills',
+    jdURL: 'applyUrl',
+    jobDescription: 'description',
+    salary: 'salaryRange',
+    createdDate: 'postedAt',
+  }),
+})
+
+registerJobSource({
+  id: 'Indeed',
+  displayName: 'Indeed',
+  badgeClassName: 'kpbs-badge--source-indeed',
+  trustWeight: 3,
+  parseRecord: renameFields({
+    jobtitle: 'title',
+    formattedLocation: 'location',
+    url: 'applyUrl',
+    snippet: 'description',
+    date: 'postedAt',
+  }),
+})
+
+registerJobSource({
+  id: 'Internshala',
+  displayName: 'Internshala',
+  badgeClassName: 'kpbs-badge--source-internshala',
+  trustWeight: 2,
+  parseRecord: renameFields({
+    profile: 'title',
+    company_name: 'company',
+    location_names: 'location',
+    stipend: 'salaryRange',
+    url: 'applyUrl',
+    about_internship: 'description',
+    posted_on: 'postedAt',
+    apply_by: 'deadline',
+  }),
+})
+
+registerJobSource({
+  id: 'Wellfound',
+  displayName: 'Wellfound',
+  badgeClassName: 'kpbs-badge--source-wellfound',
+  trustWeight: 3,
+  parseRecord: renameFields({
+    startup: 'company',
+    compensation: 'salaryRange',
+    url: 'applyUrl',
+    tags: 'skills',
+  }),
+})
+
+registerJobSource({
+  id: 'Careers',
+  displayName: 'Company careers page',
+  badgeClassName: 'kpbs-badge--source-careers',
+  trustWeight: 5,
+  parseRecord: identity,
+})
+
+registerJobSource({
+  id: 'Other',
+  displayName: 'Other',
+  badgeClassName: 'kpbs-badge--source-other',
+  trustWeight: 0,
+  parseRecord: identity,
+})
@@ -0,0 +1,195 @@
+import {
+  JOB_EXPERIENCES,
+  JOB_LISTING_STATUSES,
+  JOB_MODES,
+  type Job,
+  type JobExperience,
+  type JobListingStatus,
+  type JobMode,
+} from './jobs'
+import type { RawJobRecord } from './ingest'
+import { parseJobDate } from './recency'
+import { parseSalaryRange } from './salary'
+import { canonicalizeSkills } from './skills'
+import { isRegisteredSource, listJobSources } from './sources'
+
+export type JobRecordOrigin = 'bundled' | 'imported'
+
+export type JobValidationIssue = {
+  field: keyof Job
+  message: string
+}
+
+export type QuarantinedJobRecord = {
+  origin: JobRecordOrigin
+  index: number
+  id: unknown
+  title: string
+  issues: JobValidationIssue[]
+}
+
+export type JobValidationResult = {
+  jobs: Job[]
+  quarantined: QuarantinedJobRecord[]
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+const isNonNegativeNumber = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+const isValidEligibility = (value: unknown): boolean => {
+  if (value === undefined) return true
+  if (typeof value !== 'object' || value === null) return false
+  const eligibility = value as RawJobRecord
+  const isOptionalList = (list: unknown, isItem: (item: unknown) => boolean) =>
+    list === undefined || (Array.isArray(list) && list.every(isItem))
+  return (
+    isOptionalList(eligibility.graduationYears, (year) => Number.isInteger(year)) &&
+    isOptionalList(eligibility.degrees, isNonEmptyString) &&
+    isOptionalList(eligibility.branches, isNonEmptyString) &&
+    ['minCgpa', 'maxBacklogs', 'bondMonths'].every(
+      (field) => eligibility[field] === undefined || isNonNegativeNumber(eligibility[field]),
+    )
+  )
+}
+
+export const validateJobRecord = (record: RawJobRecord): JobValidationIssue[] => {
+  const issues: JobValidationIssue[] = []
+  const check = (field: keyof Job, ok: boolean, message: string) => {
+    if (!ok) issues.push({ field, message })
+  }
+
+  check(
+    'id',
+    typeof record.id === 'number' && Number.isInteger(record.id) && record.id > 0,
+    'id must be a positive integer.',
+  )
+  check('title', isNonEmptyString(record.title), 'title is required.')
+  check('company', isNonEmptyString(record.company), 'company is required.')
+  check('location', isNonEmptyString(record.location), 'location is required.')
+  check(
+    'mode',
+    JOB_MODES.includes(record.mode as JobMode),
+    `mode must be one of ${JOB_MODES.join(', ')} (got "${String(record.mode ?? '')}").`,
+  )
+  check(
+    'experience',
+    JOB_EXPERIENCES.includes(record.experience as JobExperience),
+    `experience must be one of ${JOB_EXPERIENCES.join(', ')} (got "${String(record.experience ?? '')}").`,
+  )
+  check(
+    'skills',
+    Array.isArray(record.skills) && record.skills.every(isNonEmptyString),
+    'skills must be a list of non-empty strings.',
+  )
+  check(
+    'requiredSkills',
+    record.requiredSkills === undefined ||
+      (Array.isArray(record.requiredSkills) && record.requiredSkills.every(isNonEmptyString)),
+    'requiredSkills must be a list of non-empty strings when present.',
+  )
+  check(
+    'niceToHaveSkills',
+    record.niceToHaveSkills === undefined ||
+      (Array.isArray(record.niceToHaveSkills) && record.niceToHaveSkills.every(isNonEmptyString)),
+    'niceToHaveSkills must be a list of non-empty strings when present.',
+  )
+  check(
+    'source',
+    isRegisteredSource(record.source),
+    `source must be a registered source: ${listJobSources()
+      .map((source) => source.id)
+      .join(', ')} (got "${String(record.source ?? '')}").`,
+  )
+  check(
+    'postedAt',
+    isNonEmptyString(record.postedAt) && parseJobDate(record.postedAt) !== null,
+    'postedAt must be a date such as 2026-01-31 or an ISO timestamp.',
+  )
+  check(
+    'deadline',
+    record.deadline === undefined ||
+      (isNonEmptyString(record.deadline) && parseJobDate(record.deadline) !== null),
+    'deadline must be a date such as 2026-01-31 when present.',
+  )
+  check(
+    'salaryRange',
+    isNonEmptyString(record.salaryRange) && /\d/.test(record.salaryRange),
+    'salaryRange must contain at least one amount.',
+  )
+  check(
+    'applyUrl',
+    isNonEmptyString(record.applyUrl) && isHttpUrl(record.applyUrl),
+    'applyUrl must be an http(s) URL.',
+  )
+  check('description', isNonEmptyString(record.description), 'description is required.')
+  check(
+    'listingStatus',
+    record.listingStatus === undefined ||
+      JOB_LISTING_STATUSES.includes(record.listingStatus as JobListingStatus),
+    `listingStatus must be one of ${JOB_LISTING_STATUSES.join(', ')} when present.`,
+  )
+  check(
+    'eligibility',
+    isValidEligibility(record.eligibility),
+    'eligibility must list whole graduation years, degree and branch names, and non-negative minCgpa, maxBacklogs and bondMonths.',
+  )
+
+  return issues
+}
+
+export const validateJobs = (
+  records: RawJobRecord[],
+  origin: JobRecordOrigin,
+  reservedIds: Set<number> = new Set(),
+): JobValidationResult => {
+  const jobs: Job[] = []
+  const quarantined: QuarantinedJobRecord[] = []
+  const seenIds = new Set<unknown>()
+
+  records.forEach((record, index) => {
+    const issues = validateJobRecord(record)
+    if (reservedIds.has(record.id as number)) {
+      issues.push({ field: 'id', message: `id ${String(record.id)} is already used by a bundled job.` })
+    } else if (seenIds.has(record.id)) {
+      issues.push({ field: 'id', message: `id ${String(record.id)} is used by an earlier record.` })
+    }
+    seenIds.add(record.id)
+
+    if (issues.length > 0) {
+      quarantined.push({
+        origin,
+        index,
+        id: record.id,
+        title: typeof record.title === 'string' ? record.title : '',
+        issues,
+      })
+      return
+    }
+    const job = record as Job
+    jobs.push({
+      ...job,
+      skills: canonicalizeSkills([
+        ...job.skills,
+        ...(job.requiredSkills ?? []),
+        ...(job.niceToHaveSkills ?? []),
+      ]),
+      requiredSkills: job.requiredSkills && canonicalizeSkills(job.requiredSkills),
+      niceToHaveSkills: job.niceToHaveSkills && canonicalizeSkills(job.niceToHaveSkills),
+      salary: parseSalaryRange(job.salaryRange),
+    })
+  })
+
+  return { jobs, quarantined }
+}
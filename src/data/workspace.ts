@@ -0,0 +1,141 @@
+export type JobContact = {
+  id: string
+  name: string
+  role: string
+  email: string
+  linkedin: string
+}
+
+export type JobAttachment = {
+  id: string
+  name: string
+  type: string
+  size: number
+  addedAt: string
+}
+
+export type JobWorkspace = {
+  notes: string
+  contacts: JobContact[]
+  attachments: JobAttachment[]
+}
+
+export type WorkspaceStore = Record<number, JobWorkspace>
+
+export const WORKSPACE_STORAGE_KEY = 'jobTrackerWorkspace'
+
+export const EMPTY_WORKSPACE: JobWorkspace = {
+  notes: '',
+  contacts: [],
+  attachments: [],
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export const createWorkspaceId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+
+export const getWorkspace = (store: WorkspaceStore, jobId: number): JobWorkspace =>
+  store[jobId] ?? EMPTY_WORKSPACE
+
+export const isWorkspaceEmpty = ({ notes, contacts, attachments }: JobWorkspace): boolean =>
+  !notes.trim() && contacts.length === 0 && attachments.length === 0
+
+export const updateWorkspace = (
+  store: WorkspaceStore,
+  jobId: number,
+  partial: Partial<JobWorkspace>,
+): WorkspaceStore => {
+  const next = { ...getWorkspace(store, jobId), ...partial }
+  const rest = Object.fromEntries(
+    Object.entries(store).filter(([id]) => Number(id) !== jobId),
+  ) as WorkspaceStore
+  return isWorkspaceEmpty(next) ? rest : { ...rest, [jobId]: next }
+}
+
+export const normalizeLinkedIn = (value: string): string => {
+  const trimmed = value.trim()
+  if (!trimmed) return ''
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed.replace(/^\/+/, '')}`
+}
+
+export const findContactIssues = (contact: Omit<JobContact, 'id'>): string[] => {
+  const issues: string[] = []
+  if (!contact.name.trim()) issues.push('Add a name.')
+  if (contact.email.trim() && !EMAIL_PATTERN.test(contact.email.trim())) {
+    issues.push(`"${contact.email.trim()}" is not a valid email address.`)
+  }
+  if (contact.linkedin.trim() && !/linkedin\.com\//i.test(contact.linkedin)) {
+    issues.push('LinkedIn links should point to linkedin.com.')
+  }
+  return issues
+}
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export const workspaceSearchText = ({ notes, contacts, attachments }: JobWorkspace): string =>
+  [
+    notes,
+    ...contacts.flatMap((contact) => [contact.name, contact.role, contact.email]),
+    ...attachments.map((attachment) => attachment.name),
+  ]
+    .filter(Boolean)
+    .join(' ')
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+
+const parseContact = (value: unknown): JobContact | null => {
+  if (typeof value !== 'object' || value === null) return null
+  const { id, name, role = '', email = '', linkedin = '' } = value as Partial<JobContact>
+  if (!isString(id) || !isString(name) || ![role, email, linkedin].every(isString)) return null
+  return { id, name, role, email, linkedin }
+}
+
+const parseAttachment = (value: unknown): JobAttachment | null => {
+  if (typeof value !== 'object' || value === null) return null
+  const { id, name, type = '', size, addedAt } = value as Partial<JobAttachment>
+  if (!isString(id) || !isString(name) || !isString(type) || !isString(addedAt)) return null
+  if (typeof size !== 'number' || size < 0) return null
+  return { id, name, type, size, addedAt }
+}
+
+export const parseWorkspaces = (value: unknown): WorkspaceStore => {
+  if (typeof value !== 'object' || value === null) return {}
+  const store: WorkspaceStore = {}
+  Object.entries(value).forEach(([id, entry]) => {
+    const numericId = Number(id)
+    if (Number.isNaN(numericId) || typeof entry !== 'object' || entry === null) return
+    const { notes, contacts, attachments } = entry as Partial<Record<keyof JobWorkspace, unknown>>
+    const workspace: JobWorkspace = {
+      notes: isString(notes) ? notes : '',
+      contacts: Array.isArray(contacts)
+        ? contacts.map(parseContact).filter((contact): contact is JobContact => contact !== null)
+        : [],
+      attachments: Array.isArray(attachments)
+        ? attachments
+            .map(parseAttachment)
+            .filter((attachment): attachment is JobAttachment => attachment !== null)
+        : [],
+    }
+    if (!isWorkspaceEmpty(workspace)) store[numericId] = workspace
+  })
+  return store
+}
+
+export const loadWorkspaces = (): WorkspaceStore => {
+  const raw = window.localStorage.getItem(WORKSPACE_STORAGE_KEY)
+  if (!raw) return {}
+  try {
+    return parseWorkspaces(JSON.parse(raw))
+  } catch {
+    return {}
+  }
+}
+
+export const saveWorkspaces = (store: WorkspaceStore) => {
+  window.localStorage.setItem(WORKSPACE_STORAGE_KEY, JSON.stringify(store))
+}